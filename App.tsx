@@ -1,10 +1,30 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { GameCanvas } from './components/GameCanvas';
-import { GameState, GameModifiers } from './types';
+import { GameState, GameModifiers, LevelData } from './types';
 import { INITIAL_LIVES, MODIFIER_CONFIG, DEFAULT_MAX_HP } from './constants';
-import { levels } from './utils/levels';
-import { Heart, Coins, Trophy, RefreshCw, Play, Map, Sliders, Zap, Award, Moon, Weight, ShieldAlert, Footprints, Shield, Share2, Check } from 'lucide-react';
+import { levels, finalizeLevel } from './utils/levels';
+import { Replay, parseReplay, serializeReplay } from './utils/replay';
+import { downloadJson, pickTextFile } from './utils/files';
+import { parseLevelFile, serializeLevel, validateLevel } from './utils/levelFormat';
+import { importTiledMap, isTiledMap } from './utils/tiled';
+import { EMPTY_GAMEPAD, GamepadState, pressedSince, readGamepads } from './utils/gamepad';
+import { matchesAction } from './utils/controls';
+import { RunResult, loadGhost, saveGhostIfBest } from './utils/ghost';
+import { SaveData, loadSave, writeSave, isLevelUnlocked, recordLevelComplete, recordDeath, createSavedRun, getBestTicks } from './utils/save';
+import { Split, formatTicks, formatDelta, totalTicks } from './utils/speedrun';
+import { SpeedrunTimer } from './components/SpeedrunTimer';
+import { ControlsMenu } from './components/ControlsMenu';
+import { TouchControls, RotateDevicePrompt } from './components/TouchControls';
+import { LevelEditor, createEmptyLevel } from './components/LevelEditor';
+import { Heart, Coins, Trophy, RefreshCw, Play, Map, Sliders, Zap, Award, Moon, Weight, ShieldAlert, Footprints, Shield, Share2, Check, Film, Upload, Download, FastForward, Hammer, FolderOpen, Keyboard } from 'lucide-react';
+
+const EMPTY_COIN_IDS = new Set<string>();
+
+const isTouchDevice = typeof window !== 'undefined' && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+
+// HUD scale for small screens, relative to a 1000x600 layout
+const getUiScale = () => Math.max(0.5, Math.min(1, window.innerWidth / 1000, window.innerHeight / 600));
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>({
@@ -15,21 +35,23 @@ export default function App() {
     status: 'menu'
   });
   
+  // Persistent progression (localStorage)
+  const [save, setSave] = useState<SaveData>(loadSave);
+
   // Health State
   const [maxHp, setMaxHp] = useState(DEFAULT_MAX_HP);
   const [currentHp, setCurrentHp] = useState(DEFAULT_MAX_HP);
 
-  const [modifiers, setModifiers] = useState<GameModifiers>({
-    energized: false,
-    lowGravity: false,
-    highGravity: false,
-    hardcore: false,
-    oldSchool: false,
-    tanky: false,
-  });
-  const [showModifiers, setShowModifiers] = useState(false);
+  const [modifiers, setModifiers] = useState<GameModifiers>(save.modifiers);
+  const [menuPanel, setMenuPanel] = useState<'main' | 'modifiers' | 'controls'>('main');
 
   const [resetKey, setResetKey] = useState(0); // Used to force-remount GameCanvas
+
+  // Touch controls and screen size
+  const touchRef = useRef<GamepadState>(EMPTY_GAMEPAD);
+  const [uiScale, setUiScale] = useState(getUiScale);
+  const [isPortrait, setIsPortrait] = useState(() => window.innerHeight > window.innerWidth);
+  const needsRotation = isTouchDevice && isPortrait;
   const [isPaused, setIsPaused] = useState(false);
   
   // Coin Persistence
@@ -48,8 +70,55 @@ export default function App() {
   // Share Feedback State
   const [showCopied, setShowCopied] = useState(false);
 
+  // Replays: the run in progress is recorded by GameCanvas into recordingRef
+  const recordingRef = useRef<Replay | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [playback, setPlayback] = useState<Replay | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null); // Replay or level file that failed to load
+
+  // Speedrun timer: ticks in the current level (advanced by GameCanvas) and finished splits
+  const levelTicksRef = useRef(0);
+  const [splits, setSplits] = useState<Split[]>([]);
+
+  // Level Editor
+  const [editorLevel, setEditorLevel] = useState<LevelData>(createEmptyLevel);
+  const [playTestLevel, setPlayTestLevel] = useState<LevelData | null>(null);
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [editorWarnings, setEditorWarnings] = useState<string[]>([]);
+
   const currentLevel = levels[gameState.currentLevelIndex];
 
+  // Ghost of the best run for this level and modifier set; ghostVersion bumps when a new best is saved
+  const [ghostVersion, setGhostVersion] = useState(0);
+  const ghost = useMemo(
+    () => loadGhost(currentLevel.id, modifiers),
+    [currentLevel.id, modifiers, ghostVersion]
+  );
+
+  useEffect(() => {
+    writeSave(save);
+  }, [save]);
+
+  // Remember modifier preferences
+  useEffect(() => {
+    setSave(prev => ({ ...prev, modifiers }));
+  }, [modifiers]);
+
+  // Persist the unfinished game so it can be continued from the start of its
+  // current level, with the coins held then and the lives and deaths as they are now
+  const { status, currentLevelIndex, lives, score, totalDeaths } = gameState;
+  useEffect(() => {
+    if (status === 'victory') {
+      setSave(prev => ({ ...prev, currentRun: null }));
+    } else if (status === 'playing' || status === 'level_transition') {
+      const run = createSavedRun(
+        { currentLevelIndex, lives, score, totalDeaths, coins: savedGameState.coins },
+        savedGameState.collectedCoinIds
+      );
+      setSave(prev => ({ ...prev, currentRun: run }));
+    }
+  }, [savedGameState, status, currentLevelIndex, lives, score, totalDeaths]);
+
   // Update Max HP based on modifiers
   useEffect(() => {
     const newMax = modifiers.tanky ? MODIFIER_CONFIG.tanky.maxHp : DEFAULT_MAX_HP;
@@ -98,6 +167,10 @@ export default function App() {
     // Reset stats for the new level
     setLevelDeaths(0);
     setLevelRestarts(0);
+
+    // A fresh run starts a fresh timer
+    levelTicksRef.current = 0;
+    setSplits([]);
   };
 
   const handleStartGame = () => {
@@ -117,10 +190,12 @@ export default function App() {
     
     initLevel(0, 0, new Set());
     setResetKey(0);
-    setShowModifiers(false);
+    setMenuPanel('main');
   };
 
   const handleSelectLevel = (index: number) => {
+    if (!isLevelUnlocked(save, index)) return;
+
     const startLives = modifiers.hardcore ? MODIFIER_CONFIG.hardcore.lives : INITIAL_LIVES;
     setGameState({
       currentLevelIndex: index,
@@ -137,7 +212,28 @@ export default function App() {
 
     initLevel(index, 0, new Set());
     setResetKey(0);
-    setShowModifiers(false);
+    setMenuPanel('main');
+  };
+
+  const handleContinue = () => {
+    const run = save.currentRun;
+    if (!run || !levels[run.currentLevelIndex]) return;
+
+    const startCollectedIds = new Set<string>(run.collectedCoinIds);
+    setGameState({
+      currentLevelIndex: run.currentLevelIndex,
+      lives: run.lives,
+      coins: run.coins,
+      score: run.score,
+      totalDeaths: run.totalDeaths,
+      status: 'playing'
+    });
+    setCollectedCoinIds(startCollectedIds);
+    setCurrentHp(maxHp);
+
+    initLevel(run.currentLevelIndex, run.coins, startCollectedIds);
+    setResetKey(0);
+    setMenuPanel('main');
   };
 
   const handleCoinCollect = useCallback((id: string) => {
@@ -151,6 +247,7 @@ export default function App() {
 
   const handleDeath = useCallback(() => {
     setLevelDeaths(d => d + 1);
+    setSave(prev => recordDeath(prev, currentLevel.id));
     
     setGameState(prev => {
       const newLives = prev.lives - 1;
@@ -175,9 +272,24 @@ export default function App() {
       
       return { ...prev, lives: newLives, totalDeaths: newTotalDeaths };
     });
-  }, [savedGameState, modifiers.hardcore]);
+  }, [savedGameState, modifiers.hardcore, currentLevel]);
+
+  const handleTick = useCallback(() => {
+    levelTicksRef.current += 1;
+  }, []);
+
+  const handleLevelComplete = useCallback((run: RunResult) => {
+    const splitTicks = levelTicksRef.current;
+    levelTicksRef.current = 0;
+    setSplits(prev => [...prev, { levelId: currentLevel.id, ticks: splitTicks, pbTicks: getBestTicks(save, currentLevel.id) }]);
+
+    if (recordingRef.current) {
+      setLastReplay(recordingRef.current);
+    }
+    if (saveGhostIfBest(currentLevel.id, modifiers, run)) {
+      setGhostVersion(v => v + 1);
+    }
 
-  const handleLevelComplete = useCallback(() => {
     setGameState(prev => {
       // Calculate Points
       let points = 0;
@@ -196,6 +308,10 @@ export default function App() {
       const multiplier = calculateScoreMultiplier();
       points = Math.floor(points * multiplier);
 
+      const completedLevel = levels[prev.currentLevelIndex];
+      const levelCoinIds = completedLevel.entities.filter(e => collectedCoinIds.has(e.id)).map(e => e.id);
+      setSave(s => recordLevelComplete(s, completedLevel.id, points, levelCoinIds, splitTicks));
+
       const nextLevelIdx = prev.currentLevelIndex + 1;
       if (nextLevelIdx >= levels.length) {
         return { ...prev, score: prev.score + points, status: 'victory' };
@@ -226,7 +342,7 @@ export default function App() {
         return prev;
       });
     }, 2000);
-  }, [levelDeaths, levelRestarts, calculateScoreMultiplier, collectedCoinIds]);
+  }, [levelDeaths, levelRestarts, calculateScoreMultiplier, collectedCoinIds, currentLevel, modifiers, save]);
 
   const handleRestart = () => {
     handleStartGame();
@@ -239,6 +355,122 @@ export default function App() {
     });
   };
 
+  const handleExportReplay = (replay: Replay) => {
+    downloadJson(`cube-parkour-level-${replay.levelId}-replay.json`, serializeReplay(replay));
+  };
+
+  const handleWatchReplay = (replay: Replay) => {
+    setFileError(null);
+    setPlayback(replay);
+    setIsPaused(false);
+    setMenuPanel('main');
+    setGameState(prev => ({ ...prev, status: 'replay' }));
+  };
+
+  const handleImportReplay = () => {
+    pickTextFile('.json,application/json').then(text => {
+      if (text === null) return;
+      try {
+        const replay = parseReplay(text);
+        if (!levels.some(lvl => lvl.id === replay.levelId)) {
+          throw new Error(`Replay is for unknown level ${replay.levelId}`);
+        }
+        handleWatchReplay(replay);
+      } catch (e) {
+        setFileError((e as Error).message);
+      }
+    });
+  };
+
+  const handleExitReplay = () => {
+    setPlayback(null);
+    setIsPaused(false);
+    setGameState(prev => ({ ...prev, status: 'menu' }));
+  };
+
+  // Playback ignores progression callbacks
+  const ignoreEvent = useCallback(() => {}, []);
+  const handleReplayComplete = useCallback(() => {
+    setTimeout(() => {
+      setGameState(prev => prev.status === 'replay' ? { ...prev, status: 'menu' } : prev);
+      setPlayback(null);
+    }, 2000);
+  }, []);
+
+  const handleOpenEditor = () => {
+    setMenuPanel('main');
+    setEditorError(null);
+    setEditorWarnings([]);
+    setGameState(prev => ({ ...prev, status: 'editor' }));
+  };
+
+  const handlePlayTest = (level: LevelData) => {
+    const errors = validateLevel(level);
+    if (errors.length > 0) {
+      setEditorError(errors.join('\n'));
+      return;
+    }
+    try {
+      setPlayTestLevel(finalizeLevel(level));
+      setEditorError(null);
+      setIsPaused(false);
+      setGameState(prev => ({ ...prev, status: 'playtest' }));
+    } catch (e) {
+      setEditorError((e as Error).message);
+    }
+  };
+
+  // Accepts our own level files as well as Tiled maps (.tmj/.tmx)
+  const handleLoadLevelText = (text: string, fileName?: string) => {
+    try {
+      if (isTiledMap(text)) {
+        const { level, warnings } = importTiledMap(text, fileName?.replace(/\.[^.]+$/, ''));
+        setEditorLevel(level);
+        setEditorWarnings(warnings);
+      } else {
+        setEditorLevel(parseLevelFile(text));
+        setEditorWarnings([]);
+      }
+      setEditorError(null);
+      setFileError(null);
+      setMenuPanel('main');
+      setGameState(prev => ({ ...prev, status: 'editor' }));
+    } catch (e) {
+      const message = `Could not load level:\n${(e as Error).message}`;
+      if (gameState.status === 'editor') setEditorError(message);
+      else setFileError(message);
+    }
+  };
+
+  const handleOpenLevelFile = () => {
+    pickTextFile('.json,.tmj,.tmx,application/json').then(text => {
+      if (text !== null) handleLoadLevelText(text);
+    });
+  };
+
+  const handleSaveLevelFile = (level: LevelData) => {
+    const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level';
+    downloadJson(`${slug}.json`, serializeLevel(level));
+  };
+
+  // Level files and Tiled maps can be dropped onto the main menu or the editor
+  const handleDrop = (e: React.DragEvent) => {
+    if (gameState.status !== 'menu' && gameState.status !== 'editor') return;
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      file.text().then(text => handleLoadLevelText(text, file.name));
+    }
+  };
+
+  const handleEndPlayTest = useCallback(() => {
+    setPlayTestLevel(null);
+    setIsPaused(false);
+    setGameState(prev => ({ ...prev, status: 'editor' }));
+  }, []);
+
+  const playbackLevel = playback ? levels.find(lvl => lvl.id === playback.levelId) : undefined;
+
   const toggleModifier = (key: keyof GameModifiers) => {
     setModifiers(prev => {
       const next = { ...prev, [key]: !prev[key] };
@@ -282,20 +514,75 @@ export default function App() {
   // Input for Pause
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
+      if (matchesAction(save.controls, 'pause', e.code) && !e.repeat) {
         setIsPaused(prev => !prev);
       }
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
+  }, [save.controls]);
+
+  useEffect(() => {
+    const handleResize = () => {
+      setUiScale(getUiScale());
+      setIsPortrait(window.innerHeight > window.innerWidth);
+    };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Controller: Start pauses like the pause key. On screens marked data-gamepad-menu
+  // the d-pad/stick moves focus between buttons, A presses the focused one and B resumes.
+  useEffect(() => {
+    let frameId: number;
+    let previous = readGamepads();
+
+    const moveFocus = (menu: Element, dir: number) => {
+      const buttons = Array.from(menu.querySelectorAll<HTMLButtonElement>('button:not([disabled])'));
+      if (buttons.length === 0) return;
+      const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+      const next = index === -1 ? (dir > 0 ? 0 : buttons.length - 1) : (index + dir + buttons.length) % buttons.length;
+      buttons[next].focus();
+    };
+
+    const poll = () => {
+      const pad = readGamepads();
+      const pressed = pressedSince(pad, previous);
+      previous = pad;
+
+      if (pressed.start) setIsPaused(prev => !prev);
+
+      // The topmost menu is the last one in the document
+      const menus = document.querySelectorAll('[data-gamepad-menu]');
+      const menu = menus[menus.length - 1];
+      if (menu) {
+        if (pressed.up || pressed.left) moveFocus(menu, -1);
+        if (pressed.down || pressed.right) moveFocus(menu, 1);
+        if (pressed.confirm) {
+          if (menu.contains(document.activeElement)) (document.activeElement as HTMLElement).click();
+          else moveFocus(menu, 1);
+        }
+        if (pressed.back) setIsPaused(false);
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
   }, []);
 
   return (
-    <div className="w-screen h-screen bg-slate-900 overflow-hidden flex flex-col font-sans text-white select-none">
+    <div
+      className="w-screen h-screen bg-slate-900 overflow-hidden flex flex-col font-sans text-white select-none"
+      onDragOver={e => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       
       {/* HUD */}
-      {gameState.status !== 'menu' && (
-        <div className="absolute top-0 left-0 w-full p-4 flex flex-col gap-2 pointer-events-none z-10">
+      {(gameState.status === 'playing' || gameState.status === 'level_transition' || gameState.status === 'victory' || gameState.status === 'gameover') && (
+        <div
+          className="absolute top-0 left-0 p-4 flex flex-col gap-2 pointer-events-none z-10"
+          style={{ width: `${100 / uiScale}%`, transform: `scale(${uiScale})`, transformOrigin: 'top left' }}
+        >
           <div className="flex justify-between items-start w-full">
             <div className="flex gap-4">
               <div className="bg-slate-800/80 backdrop-blur border border-slate-700 rounded-lg p-3 flex items-center gap-2 shadow-lg">
@@ -327,6 +614,8 @@ export default function App() {
                 <Award className="w-6 h-6 text-purple-400" />
                 <span className="text-xl font-bold">{gameState.score}</span>
               </div>
+
+              <SpeedrunTimer levelTicksRef={levelTicksRef} splits={splits} pbTicks={getBestTicks(save, currentLevel.id)} />
             </div>
             
             <div className="bg-slate-800/80 backdrop-blur border border-slate-700 rounded-lg p-3 shadow-lg flex flex-col items-end gap-1">
@@ -345,12 +634,25 @@ export default function App() {
       )}
 
       {/* Main Game Layer */}
-      {gameState.status !== 'menu' && gameState.status !== 'victory' && gameState.status !== 'gameover' && (
+      {(gameState.status === 'playing' || gameState.status === 'level_transition') && (
         <div className="flex-1 relative">
            {gameState.status === 'level_transition' && (
             <div className="absolute inset-0 z-50 bg-slate-950 flex flex-col items-center justify-center animate-in fade-in duration-300">
                <h1 className="text-4xl font-bold text-emerald-400 mb-4">Level Complete!</h1>
                <div className="text-slate-400">Total Score: <span className="text-white font-bold">{gameState.score}</span></div>
+               {splits.length > 0 && (() => {
+                 const split = splits[splits.length - 1];
+                 return (
+                   <div className="text-slate-400 mt-2 font-mono">
+                     Split: <span className="text-white font-bold">{formatTicks(split.ticks)}</span>
+                     {split.pbTicks !== null && (
+                       <span className={`ml-2 font-bold ${split.ticks <= split.pbTicks ? 'text-emerald-400' : 'text-red-400'}`}>
+                         {formatDelta(split.ticks, split.pbTicks)}
+                       </span>
+                     )}
+                   </div>
+                 );
+               })()}
             </div>
            )}
            <GameCanvas 
@@ -365,14 +667,87 @@ export default function App() {
              onCoinCollect={handleCoinCollect}
              onDeath={handleDeath}
              onLevelComplete={handleLevelComplete}
-             isPaused={isPaused || gameState.status === 'level_transition'}
+             isPaused={isPaused || needsRotation || gameState.status === 'level_transition'}
+             recordingRef={recordingRef}
+             ghost={ghost}
+             onTick={handleTick}
+             bindings={save.controls}
+             touchRef={touchRef}
            />
+           {isTouchDevice && gameState.status === 'playing' && !isPaused && (
+             <TouchControls inputRef={touchRef} onPause={() => setIsPaused(true)} />
+           )}
+        </div>
+      )}
+
+      {/* Replay Playback */}
+      {gameState.status === 'replay' && playback && playbackLevel && (
+        <div className="flex-1 relative">
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-slate-800/80 backdrop-blur border border-slate-700 rounded-lg px-4 py-2 shadow-lg flex items-center gap-3">
+            <Film className="w-5 h-5 text-emerald-400" />
+            <span className="font-bold text-slate-200">Replay: {playbackLevel.name}</span>
+            <button onClick={handleExitReplay} className="text-slate-400 hover:text-white font-bold text-sm">Exit</button>
+          </div>
+          <GameCanvas
+            level={playbackLevel}
+            modifiers={playback.modifiers}
+            maxHp={playback.modifiers.tanky ? MODIFIER_CONFIG.tanky.maxHp : DEFAULT_MAX_HP}
+            onHealthUpdate={ignoreEvent}
+            collectedCoinIds={EMPTY_COIN_IDS}
+            onCoinCollect={ignoreEvent}
+            onDeath={ignoreEvent}
+            onLevelComplete={handleReplayComplete}
+            isPaused={isPaused}
+            replay={playback}
+            bindings={save.controls}
+          />
+        </div>
+      )}
+
+      {/* Level Editor */}
+      {gameState.status === 'editor' && (
+        <LevelEditor
+          level={editorLevel}
+          onChange={setEditorLevel}
+          onPlayTest={handlePlayTest}
+          onExit={() => setGameState(prev => ({ ...prev, status: 'menu' }))}
+          onOpenFile={handleOpenLevelFile}
+          onSaveFile={handleSaveLevelFile}
+          error={editorError}
+          warnings={editorWarnings}
+        />
+      )}
+
+      {/* Editor Play Test */}
+      {gameState.status === 'playtest' && playTestLevel && (
+        <div className="flex-1 relative">
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-slate-800/80 backdrop-blur border border-slate-700 rounded-lg px-4 py-2 shadow-lg flex items-center gap-3">
+            <Hammer className="w-5 h-5 text-amber-400" />
+            <span className="font-bold text-slate-200">Play Test: {playTestLevel.name}</span>
+            <button onClick={handleEndPlayTest} className="text-slate-400 hover:text-white font-bold text-sm">Back to Editor</button>
+          </div>
+          <GameCanvas
+            level={playTestLevel}
+            modifiers={modifiers}
+            maxHp={maxHp}
+            onHealthUpdate={ignoreEvent}
+            collectedCoinIds={EMPTY_COIN_IDS}
+            onCoinCollect={ignoreEvent}
+            onDeath={ignoreEvent}
+            onLevelComplete={handleEndPlayTest}
+            isPaused={isPaused || needsRotation}
+            bindings={save.controls}
+            touchRef={touchRef}
+          />
+          {isTouchDevice && !isPaused && (
+            <TouchControls inputRef={touchRef} onPause={() => setIsPaused(true)} />
+          )}
         </div>
       )}
 
       {/* Menus / Overlays */}
       {gameState.status === 'menu' && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-900 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-slate-800 to-slate-950">
+        <div data-gamepad-menu className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-900 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-slate-800 to-slate-950">
           <div className="max-w-xl w-full p-8 text-center space-y-8 relative">
             <div className="space-y-2">
               <h1 className="text-6xl font-black bg-gradient-to-r from-blue-400 to-emerald-400 text-transparent bg-clip-text">
@@ -382,8 +757,18 @@ export default function App() {
             </div>
 
             {/* Main Menu Buttons */}
-            {!showModifiers ? (
+            {menuPanel === 'main' ? (
               <div className="flex flex-col items-center gap-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+                {save.currentRun && levels[save.currentRun.currentLevelIndex] && (
+                  <button 
+                    onClick={handleContinue}
+                    className="group w-full max-w-xs relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white transition-all duration-200 bg-emerald-600 rounded-full hover:bg-emerald-500 hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-emerald-600 focus:ring-offset-slate-900 shadow-lg shadow-emerald-500/30"
+                  >
+                    <FastForward className="w-6 h-6 mr-2 fill-current" />
+                    Continue: {levels[save.currentRun.currentLevelIndex].name}
+                  </button>
+                )}
+
                 <button 
                   onClick={handleStartGame}
                   className="group w-full max-w-xs relative inline-flex items-center justify-center px-8 py-4 text-lg font-bold text-white transition-all duration-200 bg-blue-600 rounded-full hover:bg-blue-500 hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-600 focus:ring-offset-slate-900 shadow-lg shadow-blue-500/30"
@@ -398,7 +783,7 @@ export default function App() {
                     <span className="text-sm font-bold uppercase tracking-wider">Level Select</span>
                   </div>
                   <div className="grid grid-cols-4 gap-2">
-                    {levels.map((lvl, idx) => (
+                    {levels.map((lvl, idx) => isLevelUnlocked(save, idx) && (
                       <button
                         key={lvl.id}
                         onClick={() => handleSelectLevel(idx)}
@@ -410,16 +795,71 @@ export default function App() {
                   </div>
                 </div>
 
-                <div className="flex gap-4">
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-2">
                   <button 
-                    onClick={() => setShowModifiers(true)}
+                    onClick={() => setMenuPanel('modifiers')}
                     className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
                   >
                     <Sliders className="w-5 h-5" />
                     <span className="font-bold">Modifiers</span>
                   </button>
+                  <button 
+                    onClick={() => setMenuPanel('controls')}
+                    className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                  >
+                    <Keyboard className="w-5 h-5" />
+                    <span className="font-bold">Controls</span>
+                  </button>
+                  <button 
+                    onClick={handleOpenEditor}
+                    className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                  >
+                    <Hammer className="w-5 h-5" />
+                    <span className="font-bold">Level Editor</span>
+                  </button>
+                  <button 
+                    onClick={handleOpenLevelFile}
+                    className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                  >
+                    <FolderOpen className="w-5 h-5" />
+                    <span className="font-bold">Load Level</span>
+                  </button>
+                  <button 
+                    onClick={handleImportReplay}
+                    className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                  >
+                    <Upload className="w-5 h-5" />
+                    <span className="font-bold">Import Replay</span>
+                  </button>
+                  {lastReplay && (
+                    <button 
+                      onClick={() => handleWatchReplay(lastReplay)}
+                      className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                    >
+                      <Film className="w-5 h-5" />
+                      <span className="font-bold">Watch Last Run</span>
+                    </button>
+                  )}
+                  {lastReplay && (
+                    <button 
+                      onClick={() => handleExportReplay(lastReplay)}
+                      className="flex items-center text-slate-400 hover:text-white transition-colors gap-2"
+                    >
+                      <Download className="w-5 h-5" />
+                      <span className="font-bold">Export</span>
+                    </button>
+                  )}
                 </div>
+                {fileError && (
+                  <p className="text-red-400 text-sm whitespace-pre-line">{fileError}</p>
+                )}
               </div>
+            ) : menuPanel === 'controls' ? (
+              <ControlsMenu
+                bindings={save.controls}
+                onChange={controls => setSave(prev => ({ ...prev, controls }))}
+                onClose={() => setMenuPanel('main')}
+              />
             ) : (
               /* Modifiers Panel */
               <div className="bg-slate-800/90 backdrop-blur border border-slate-700 p-6 rounded-2xl animate-in zoom-in-95 duration-200 shadow-2xl max-w-lg mx-auto w-full">
@@ -428,7 +868,7 @@ export default function App() {
                      <Sliders className="w-5 h-5 text-emerald-400" />
                      Game Modifiers
                    </h2>
-                   <button onClick={() => setShowModifiers(false)} className="text-slate-400 hover:text-white font-bold text-sm">Close</button>
+                   <button onClick={() => setMenuPanel('main')} className="text-slate-400 hover:text-white font-bold text-sm">Close</button>
                  </div>
                  
                  <div className="max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
@@ -446,7 +886,7 @@ export default function App() {
       )}
 
       {gameState.status === 'gameover' && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in zoom-in duration-300">
+        <div data-gamepad-menu className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in zoom-in duration-300">
           <h2 className="text-5xl font-black text-red-500 mb-2">GAME OVER</h2>
           <p className="text-slate-300 mb-8">You ran out of lives!</p>
           <button 
@@ -460,7 +900,7 @@ export default function App() {
       )}
 
       {gameState.status === 'victory' && (
-        <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/95 backdrop-blur-md animate-in fade-in zoom-in duration-300">
+        <div data-gamepad-menu className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/95 backdrop-blur-md animate-in fade-in zoom-in duration-300">
           <Trophy className="w-24 h-24 text-yellow-400 mb-6 drop-shadow-lg" />
           <h2 className="text-5xl font-black text-white mb-2">VICTORY!</h2>
           
@@ -479,6 +919,10 @@ export default function App() {
                   <p className="text-slate-400 text-sm uppercase tracking-wider">Coins</p>
                   <p className="text-3xl font-bold text-yellow-400">{gameState.coins} <span className="text-xl text-slate-600">/ {totalCoinsAvailable}</span></p>
                </div>
+               <div>
+                  <p className="text-slate-400 text-sm uppercase tracking-wider">Time</p>
+                  <p className="text-3xl font-bold font-mono text-sky-400">{formatTicks(totalTicks(splits))}</p>
+               </div>
             </div>
 
             {/* Right Column: Ranks */}
@@ -525,6 +969,28 @@ export default function App() {
             </div>
           </div>
 
+          {/* Splits */}
+          {splits.length > 0 && (
+            <div className="mb-8 w-full max-w-md bg-slate-900/50 border border-slate-800 rounded-lg p-3 max-h-48 overflow-y-auto custom-scrollbar">
+              {splits.map(split => {
+                const lvl = levels.find(l => l.id === split.levelId);
+                return (
+                  <div key={split.levelId} className="flex justify-between items-center text-sm font-mono py-0.5">
+                    <span className="text-slate-400 font-sans truncate mr-4">{lvl ? lvl.name : split.levelId}</span>
+                    <span className="flex gap-3">
+                      <span className="text-slate-200">{formatTicks(split.ticks)}</span>
+                      {split.pbTicks !== null && (
+                        <span className={`w-14 text-right ${split.ticks <= split.pbTicks ? 'text-emerald-400' : 'text-red-400'}`}>
+                          {formatDelta(split.ticks, split.pbTicks)}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           <div className="flex gap-4">
             <button 
               onClick={() => setGameState(prev => ({ ...prev, status: 'menu' }))}
@@ -533,7 +999,7 @@ export default function App() {
               Main Menu
             </button>
             <button 
-              onClick={() => handleShare(`I scored ${gameState.score} points in Cube Parkour! 🏆 Can you beat my high score?`)}
+              onClick={() => handleShare(`I scored ${gameState.score} points in Cube Parkour in ${formatTicks(totalTicks(splits))}! 🏆 Can you beat my high score?`)}
               className="flex items-center px-8 py-4 bg-blue-500 text-white rounded-full font-bold hover:bg-blue-400 transition-colors shadow-lg shadow-blue-500/20 text-lg"
             >
               {showCopied ? <Check className="w-5 h-5 mr-2" /> : <Share2 className="w-5 h-5 mr-2" />}
@@ -544,8 +1010,8 @@ export default function App() {
       )}
 
       {/* Pause Menu Overlay */}
-      {isPaused && gameState.status === 'playing' && (
-        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/50 backdrop-blur-sm">
+      {isPaused && (gameState.status === 'playing' || gameState.status === 'replay' || gameState.status === 'playtest') && (
+        <div data-gamepad-menu className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/50 backdrop-blur-sm">
           <h2 className="text-4xl font-bold text-white mb-8">PAUSED</h2>
           <div className="flex gap-4">
              <button 
@@ -554,8 +1020,21 @@ export default function App() {
             >
               Resume
             </button>
+            {gameState.status === 'playing' && recordingRef.current && (
+              <button 
+                onClick={() => recordingRef.current && handleExportReplay(recordingRef.current)}
+                className="flex items-center px-8 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-bold transition-colors"
+              >
+                <Download className="w-5 h-5 mr-2" />
+                Export Run
+              </button>
+            )}
             <button 
-              onClick={() => setGameState(prev => ({ ...prev, status: 'menu' }))}
+              onClick={() => {
+                if (gameState.status === 'replay') handleExitReplay();
+                else if (gameState.status === 'playtest') handleEndPlayTest();
+                else setGameState(prev => ({ ...prev, status: 'menu' }));
+              }}
               className="px-8 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg font-bold transition-colors"
             >
               Menu
@@ -564,6 +1043,8 @@ export default function App() {
          
         </div>
       )}
+
+      {needsRotation && <RotateDevicePrompt />}
     </div>
   );
 }
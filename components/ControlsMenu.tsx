@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, Plus, X, RotateCcw } from 'lucide-react';
+import {
+  Action, Bindings, ACTIONS, ACTION_LABELS, DEFAULT_BINDINGS, MAX_KEYS_PER_ACTION,
+  formatKey, setBinding, removeBinding, findBindingProblems
+} from '../utils/controls';
+
+interface ControlsMenuProps {
+  bindings: Bindings;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+// Key slot waiting for the next key press
+interface Capture {
+  action: Action;
+  slot: number;
+}
+
+export const ControlsMenu: React.FC<ControlsMenuProps> = ({ bindings, onChange, onClose }) => {
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const problems = findBindingProblems(bindings);
+
+  // Listen in the capture phase so the key doesn't also reach other handlers (e.g. pause)
+  useEffect(() => {
+    if (!capture) return;
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.code !== 'Escape' || capture.action === 'pause') {
+        onChange(setBinding(bindings, capture.action, capture.slot, e.code));
+      }
+      setCapture(null);
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [capture, bindings, onChange]);
+
+  const isCapturing = (action: Action, slot: number) => capture?.action === action && capture.slot === slot;
+
+  return (
+    <div className="bg-slate-800/90 backdrop-blur border border-slate-700 p-6 rounded-2xl animate-in zoom-in-95 duration-200 shadow-2xl max-w-lg mx-auto w-full">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <Keyboard className="w-5 h-5 text-sky-400" />
+          Controls
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white font-bold text-sm">Close</button>
+      </div>
+
+      <div className="space-y-2 text-left">
+        {ACTIONS.map(action => (
+          <div key={action} className="flex items-center justify-between gap-4 p-2 rounded-lg bg-slate-900/50">
+            <span className="font-bold text-slate-300">{ACTION_LABELS[action]}</span>
+            <div className="flex items-center gap-1">
+              {bindings[action].map((code, slot) => (
+                <span key={code} className="flex items-center">
+                  <button
+                    onClick={() => setCapture({ action, slot })}
+                    className={`px-2 py-1 rounded-l font-mono text-sm border ${isCapturing(action, slot) ? 'bg-sky-600 border-sky-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-200 hover:border-sky-500'}`}
+                  >
+                    {isCapturing(action, slot) ? '...' : formatKey(code)}
+                  </button>
+                  <button
+                    onClick={() => onChange(removeBinding(bindings, action, slot))}
+                    className="px-1 py-1 rounded-r border border-l-0 border-slate-600 bg-slate-800 text-slate-500 hover:text-red-400"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </span>
+              ))}
+              {bindings[action].length < MAX_KEYS_PER_ACTION && (
+                <button
+                  onClick={() => setCapture({ action, slot: bindings[action].length })}
+                  className={`p-1 rounded border ${isCapturing(action, bindings[action].length) ? 'bg-sky-600 border-sky-400' : 'border-dashed border-slate-600 text-slate-500 hover:text-white'}`}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 mt-3">
+        {capture ? 'Press a key to bind it, or Escape to cancel.' : 'Click a key to change it.'}
+      </p>
+      {problems.length > 0 && (
+        <ul className="mt-3 text-sm text-red-400 text-left space-y-1">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={() => onChange(DEFAULT_BINDINGS)}
+        className="mt-4 flex items-center gap-2 mx-auto text-slate-400 hover:text-white text-sm font-bold"
+      >
+        <RotateCcw className="w-4 h-4" />
+        Reset to Defaults
+      </button>
+    </div>
+  );
+};
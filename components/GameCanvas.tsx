@@ -1,12 +1,19 @@
 
 import React, { useEffect, useRef } from 'react';
-import { Entity, LevelData, Vector, GameModifiers } from '../types';
-import { 
-  GRAVITY, MOVE_SPEED, RUN_SPEED, CROUCH_SPEED, 
-  JUMP_FORCE, BOUNCE_FORCE, PLAYER_SIZE, CROUCH_HEIGHT, COLORS, PARTICLE_COLORS,
-  MAX_FALL_SPEED, MODIFIER_CONFIG, MAX_JUMPS, DEFAULT_MAX_HP
+import { LevelData, Vector, GameModifiers } from '../types';
+import {
+  PLAYER_SIZE, COLORS, PARTICLE_COLORS, TICK_DURATION, MAX_TICKS_PER_FRAME, SURFACE_CONFIG, DEFAULT_BUTTON_DURATION,
+  TURRET_FIRE_INTERVAL, DEFAULT_BLINK_PERIOD, BLINK_WARNING_TICKS
 } from '../constants';
 import { playSound } from '../utils/audio';
+import { SimEvent, SimInput, SimState, createSimState, isInvulnerable, simulateStep } from '../utils/simulation';
+import { Replay, createReplay, expandInputs, inputAt, recordInput } from '../utils/replay';
+import { GhostRun, RunResult, ghostPositionAt } from '../utils/ghost';
+import { EMPTY_GAMEPAD, GamepadState, mergeGamepadStates, pressedSince, readGamepads } from '../utils/gamepad';
+import { Bindings, isActionDown, matchesAction } from '../utils/controls';
+import { queryGrid } from '../utils/spatialGrid';
+import { getChannelColor, isTrigger, isTriggerOn } from '../utils/triggers';
+import { getBlinkTicksLeft, isBlinking, isCrumbling } from '../utils/timedPlatforms';
 
 interface GameCanvasProps {
   level: LevelData;
@@ -14,10 +21,16 @@ interface GameCanvasProps {
   onCoinCollect: (id: string) => void;
   collectedCoinIds: Set<string>;
   onDeath: () => void;
-  onLevelComplete: () => void;
+  onLevelComplete: (run: RunResult) => void;
   isPaused: boolean;
   maxHp: number;
   onHealthUpdate: (hp: number) => void;
+  replay?: Replay; // Playback mode: inputs come from the replay instead of the keyboard
+  recordingRef?: React.MutableRefObject<Replay | null>; // Receives the live recording of this run
+  ghost?: GhostRun | null; // Previous best run to race against
+  onTick?: () => void; // Called once per simulated tick until the level is finished
+  bindings: Bindings; // Keyboard controls
+  touchRef?: React.MutableRefObject<GamepadState>; // On-screen touch controls, read like a controller
 }
 
 // Particle System Types
@@ -33,14 +46,25 @@ interface Particle {
   type: 'dust' | 'fire' | 'sparkle' | 'blood' | 'bouncy';
 }
 
-// AABB Collision Detection
-const checkCollision = (rect1: { pos: Vector, size: Vector }, rect2: { pos: Vector, size: Vector }) => {
-  return (
-    rect1.pos.x < rect2.pos.x + rect2.size.x &&
-    rect1.pos.x + rect1.size.x > rect2.pos.x &&
-    rect1.pos.y < rect2.pos.y + rect2.size.y &&
-    rect1.pos.y + rect1.size.y > rect2.pos.y
-  );
+// Extra distance around the screen within which entities are still drawn
+const VIEW_MARGIN = 400;
+
+const lerp = (from: Vector, to: Vector, t: number): Vector => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t,
+});
+
+const traceRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + w - r, y);
+  ctx.quadraticCurveTo(x + w, y, x + w, y + r);
+  ctx.lineTo(x + w, y + h - r);
+  ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
+  ctx.lineTo(x + r, y + h);
+  ctx.quadraticCurveTo(x, y + h, x, y + h - r);
+  ctx.lineTo(x, y + r);
+  ctx.quadraticCurveTo(x, y, x + r, y);
 };
 
 export const GameCanvas: React.FC<GameCanvasProps> = ({ 
@@ -52,72 +76,45 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   onLevelComplete,
   isPaused,
   maxHp,
-  onHealthUpdate
+  onHealthUpdate,
+  replay,
+  recordingRef,
+  ghost,
+  onTick,
+  bindings,
+  touchRef
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // Determine effective constants based on modifiers
-  const speedScale = (modifiers.energized ? MODIFIER_CONFIG.energized.speedScale : 1.0) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.speedScale : 1.0);
-  const gravityScale = (modifiers.lowGravity ? MODIFIER_CONFIG.lowGravity.gravityScale : (modifiers.highGravity ? MODIFIER_CONFIG.highGravity.gravityScale : 1.0)) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.gravityScale : 1.0);
-  const jumpScale = (modifiers.oldSchool ? MODIFIER_CONFIG.oldSchool.jumpScale : 1.0) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.jumpScale : 1.0);
-  
-  const EFFECTIVE_GRAVITY = GRAVITY * gravityScale;
-  const EFFECTIVE_JUMP_FORCE = JUMP_FORCE * jumpScale;
-  const EFFECTIVE_MOVE_SPEED = MOVE_SPEED * speedScale;
-  const EFFECTIVE_RUN_SPEED = RUN_SPEED * speedScale;
-  const EFFECTIVE_CROUCH_SPEED = CROUCH_SPEED * speedScale;
-  
-  const CURRENT_MAX_JUMPS = modifiers.oldSchool ? MODIFIER_CONFIG.oldSchool.maxJumps : MAX_JUMPS;
-  const EFFECTIVE_MAX_FALL = MAX_FALL_SPEED; 
-
-  // Game State Refs (Mutable for performance)
-  const playerRef = useRef({
-    pos: { ...level.spawnPos },
-    vel: { x: 0, y: 0 },
-    size: { x: PLAYER_SIZE, y: PLAYER_SIZE },
-    isGrounded: false,
-    isCrouching: false,
-    isDead: false,
-    jumpsRemaining: CURRENT_MAX_JUMPS,
-    hp: maxHp,
-    invulnerableUntil: 0,
-    facingRight: true, // For rendering eyes
-  });
+  // Simulation state lives outside React (Mutable for performance)
+  const simRef = useRef<SimState | null>(null);
   
   const particlesRef = useRef<Particle[]>([]);
   const keysRef = useRef<{ [key: string]: boolean }>({});
   const jumpRequested = useRef(false); // Track specific jump key presses
   const cameraRef = useRef<Vector>({ x: 0, y: 0 });
-  const checkpointRef = useRef<Vector>({ ...level.spawnPos });
-  const timeRef = useRef(0);
-  const levelCompleteTriggered = useRef(false);
   const shakeRef = useRef(0); // Screen shake intensity
-  
-  const entitiesRef = useRef<Entity[]>([]);
+  const playbackRef = useRef<SimInput[] | null>(null);
+  const trajectoryRef = useRef<number[]>([]); // Player position after every tick, for ghosts
+  const gamepadRef = useRef<GamepadState>(EMPTY_GAMEPAD); // Controller state at the previous tick
+  const bindingsRef = useRef(bindings); // Read by the key listeners, which are only attached once
+  bindingsRef.current = bindings;
   
   // Need to reset when level changes
   useEffect(() => {
-    playerRef.current.pos = { ...level.spawnPos };
-    playerRef.current.vel = { x: 0, y: 0 };
-    playerRef.current.isDead = false;
-    playerRef.current.jumpsRemaining = CURRENT_MAX_JUMPS;
-    playerRef.current.hp = maxHp;
-    playerRef.current.invulnerableUntil = 0;
-    checkpointRef.current = { ...level.spawnPos };
-    levelCompleteTriggered.current = false;
+    if (replay) {
+      simRef.current = createSimState(level, replay.modifiers, maxHp, new Set(replay.collectedCoinIds));
+      playbackRef.current = expandInputs(replay);
+    } else {
+      simRef.current = createSimState(level, modifiers, maxHp, collectedCoinIds);
+      playbackRef.current = null;
+      if (recordingRef) recordingRef.current = createReplay(level, modifiers, collectedCoinIds);
+    }
     particlesRef.current = [];
+    trajectoryRef.current = [];
+    cameraRef.current = { x: 0, y: 0 };
     
     onHealthUpdate(maxHp);
-    
-    entitiesRef.current = JSON.parse(JSON.stringify(level.entities)).map((e: Entity) => ({
-      ...e,
-      active: (e.type === 'coin' && collectedCoinIds.has(e.id)) ? false : true,
-      collected: (e.type === 'coin' && collectedCoinIds.has(e.id)) ? true : false,
-      startPos: { ...e.pos }
-    }));
-    
-    cameraRef.current = { x: 0, y: 0 };
-    timeRef.current = 0;
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [level, maxHp]); 
 
@@ -125,7 +122,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       keysRef.current[e.code] = true;
-      if ((e.code === 'Space' || e.code === 'ArrowUp' || e.code === 'KeyW') && !e.repeat) {
+      if (matchesAction(bindingsRef.current, 'jump', e.code) && !e.repeat) {
         jumpRequested.current = true;
       }
     };
@@ -141,6 +138,38 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     };
   }, []);
 
+  // Physical controllers and the on-screen touch controls together
+  const readPads = (): GamepadState =>
+    touchRef ? mergeGamepadStates(readGamepads(), touchRef.current) : readGamepads();
+
+  // Translate held keys (or the replay) into the simulation's input for this tick
+  const readInput = (tick: number): SimInput => {
+    if (playbackRef.current) {
+      return inputAt(playbackRef.current, tick);
+    }
+
+    const keys = keysRef.current;
+    const pad = readPads();
+    const padPressed = pressedSince(pad, gamepadRef.current);
+    gamepadRef.current = pad;
+
+    const bindings = bindingsRef.current;
+    const input: SimInput = {
+      left: isActionDown(bindings, keys, 'left') || pad.left,
+      right: isActionDown(bindings, keys, 'right') || pad.right,
+      run: isActionDown(bindings, keys, 'run') || pad.run,
+      crouch: isActionDown(bindings, keys, 'crouch') || pad.crouch,
+      jump: jumpRequested.current || padPressed.jump,
+      jumpHeld: isActionDown(bindings, keys, 'jump') || pad.jump,
+    };
+    jumpRequested.current = false;
+
+    if (recordingRef?.current) {
+      recordInput(recordingRef.current, input);
+    }
+    return input;
+  };
+
   const spawnParticles = (x: number, y: number, count: number, type: 'dust' | 'fire' | 'sparkle' | 'blood' | 'bouncy', speedScale: number = 1.0) => {
     for (let i = 0; i < count; i++) {
       const colors = PARTICLE_COLORS[type];
@@ -182,37 +211,132 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     if (!ctx) return;
 
     let animationFrameId: number;
-
-    const update = () => {
-      if (isPaused) {
-        draw();
-        animationFrameId = requestAnimationFrame(update);
-        return;
+    gamepadRef.current = readPads(); // An A press from the menu or pause screen isn't a jump
+
+    // Turn simulation events into effects and parent callbacks
+    const handleEvent = (event: SimEvent) => {
+      switch (event.type) {
+        case 'die':
+          spawnParticles(event.pos.x, event.pos.y, 50, 'blood', 4);
+          playSound('die');
+          onHealthUpdate(maxHp);
+          onDeath();
+          break;
+        case 'crouch':
+          spawnParticles(event.pos.x, event.pos.y, 5, 'dust');
+          break;
+        case 'jump':
+          playSound(event.isDoubleJump ? 'doubleJump' : 'jump');
+          spawnParticles(event.pos.x, event.pos.y, 8, 'dust');
+          break;
+        case 'wallJump':
+          playSound('jump');
+          spawnParticles(event.pos.x, event.pos.y, 8, 'dust');
+          break;
+        case 'bounce':
+          spawnParticles(event.pos.x, event.pos.y, 12, 'bouncy');
+          playSound('bounce');
+          break;
+        case 'land':
+          spawnParticles(event.pos.x, event.pos.y, 10, 'dust');
+          break;
+        case 'coin': {
+          const { entity } = event;
+          spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y + entity.size.y/2, 15, 'sparkle');
+          playSound('coin');
+          onCoinCollect(entity.id);
+          break;
+        }
+        case 'damage':
+          onHealthUpdate(event.hp);
+          shakeRef.current = 10; // Screen shake
+          if (event.hp > 0) {
+            playSound('hurt');
+            spawnParticles(event.pos.x, event.pos.y, 10, 'blood');
+          }
+          break;
+        case 'finish':
+          spawnParticles(event.pos.x, event.pos.y, 50, 'sparkle');
+          playSound('win');
+          onLevelComplete({ ticks: simRef.current?.tick ?? 0, trajectory: [...trajectoryRef.current] });
+          break;
+        case 'checkpoint': {
+          const { entity } = event;
+          spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y, 20, 'sparkle');
+          playSound('coin'); // Reusing coin sound for checkpoint
+          break;
+        }
+        case 'trigger': {
+          const { entity } = event;
+          if (entity.type === 'key') {
+            spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y + entity.size.y/2, 12, 'sparkle');
+            playSound('coin');
+          } else if (event.on || entity.type === 'lever') {
+            playSound('click');
+          }
+          break;
+        }
+        case 'stomp': {
+          const { entity } = event;
+          spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y + entity.size.y/2, 15, 'blood');
+          spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y, 8, 'bouncy');
+          shakeRef.current = 6;
+          playSound('stomp');
+          break;
+        }
+        case 'enemyJump':
+          spawnParticles(event.pos.x, event.pos.y, 4, 'dust');
+          break;
+        case 'shoot':
+          playSound('shoot');
+          break;
+        case 'projectileHit':
+          spawnParticles(event.pos.x, event.pos.y, 6, 'fire', 0.8);
+          break;
+        case 'crumble': {
+          // Debris along the whole platform
+          const { entity } = event;
+          for (let x = entity.pos.x + 10; x < entity.pos.x + entity.size.x; x += 20) {
+            spawnParticles(x, entity.pos.y + entity.size.y / 2, 3, 'dust', 1.5);
+          }
+          break;
+        }
       }
+    };
+
+    // Positions at the start of the latest tick, blended with the current ones when drawing
+    let prevPlayerPos: Vector | null = null;
+    let prevEntityPos = new Map<number, Vector>(); // Only entities that move, by index
+
+    const snapshot = (sim: SimState) => {
+      prevPlayerPos = { ...sim.player.pos };
+      prevEntityPos = new Map([...sim.movers, ...sim.enemies].map(index => [index, { ...sim.entities[index].pos }] as [number, Vector]));
+    };
+
+    // Indices of entities near the camera; the margin keeps wide text labels from popping in
+    const visibleEntities = (sim: SimState) => queryGrid(sim.grid, {
+      pos: { x: cameraRef.current.x - VIEW_MARGIN, y: cameraRef.current.y - VIEW_MARGIN },
+      size: { x: canvas.width + VIEW_MARGIN * 2, y: canvas.height + VIEW_MARGIN * 2 },
+    });
+
+    // Advance the world by exactly one fixed tick
+    const step = (sim: SimState) => {
+      snapshot(sim);
 
-      timeRef.current += 1;
-      
       // Reduce screen shake
       if (shakeRef.current > 0) shakeRef.current *= 0.9;
       if (shakeRef.current < 0.5) shakeRef.current = 0;
 
-      if (playerRef.current.isDead) {
-         spawnParticles(playerRef.current.pos.x + PLAYER_SIZE/2, playerRef.current.pos.y + PLAYER_SIZE/2, 50, 'blood', 4);
-         playSound('die');
-
-         playerRef.current.pos = { ...checkpointRef.current };
-         playerRef.current.vel = { x: 0, y: 0 };
-         playerRef.current.isDead = false;
-         playerRef.current.jumpsRemaining = CURRENT_MAX_JUMPS;
-         playerRef.current.hp = maxHp;
-         playerRef.current.invulnerableUntil = 0;
-         onHealthUpdate(maxHp);
-         onDeath();
+      const wasComplete = sim.levelComplete;
+      const events = simulateStep(sim, readInput(sim.tick), level, replay ? replay.modifiers : modifiers);
+      trajectoryRef.current.push(Math.round(sim.player.pos.x), Math.round(sim.player.pos.y));
+      if (!wasComplete) onTick?.();
+      events.forEach(handleEvent);
+      if (events.some(event => event.type === 'die')) {
+        // Don't interpolate across the respawn teleport
+        prevPlayerPos = { ...sim.player.pos };
       }
 
-      const player = playerRef.current;
-      const keys = keysRef.current;
-
       // --- Update Particles ---
       for (let i = particlesRef.current.length - 1; i >= 0; i--) {
         const p = particlesRef.current[i];
@@ -229,21 +353,9 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         }
       }
 
-      // --- Update Moving Entities ---
-      entitiesRef.current.forEach(entity => {
-        if (entity.patrolRange && entity.startPos) {
-          const speed = entity.moveSpeed || 0.05;
-          const offset = entity.moveOffset || 0;
-          const t = timeRef.current * speed + offset;
-          
-          const offsetX = Math.sin(t) * entity.patrolRange.x;
-          const offsetY = Math.sin(t) * entity.patrolRange.y;
-
-          entity.pos.x = entity.startPos.x + offsetX;
-          entity.pos.y = entity.startPos.y + offsetY;
-        }
-
-        // Spawn ambient lava bubbles
+      // Spawn ambient lava bubbles on screen
+      visibleEntities(sim).forEach(i => {
+        const entity = sim.entities[i];
         if (entity.type === 'lava' && Math.random() < 0.05) {
           // Random point on surface
           const bx = entity.pos.x + Math.random() * entity.size.x;
@@ -252,204 +364,53 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
         }
       });
 
-      // --- Movement Logic ---
-      const isRunning = keys['ShiftLeft'] || keys['ShiftRight'];
-      const isCrouchingInput = keys['ArrowDown'] || keys['KeyS'];
-      
-      // Update Crouch State
-      if (isCrouchingInput && !player.isCrouching) {
-        player.isCrouching = true;
-        player.pos.y += (PLAYER_SIZE - CROUCH_HEIGHT); // Push down to floor
-        player.size.y = CROUCH_HEIGHT;
-        spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + CROUCH_HEIGHT, 5, 'dust');
-      } else if (!isCrouchingInput && player.isCrouching) {
-        const testRect = {
-          pos: { x: player.pos.x, y: player.pos.y - (PLAYER_SIZE - CROUCH_HEIGHT) },
-          size: { x: PLAYER_SIZE, y: PLAYER_SIZE }
-        };
-        
-        let canStand = true;
-        for (const entity of entitiesRef.current) {
-          if ((entity.type === 'platform' || entity.type === 'bouncy') && checkCollision(testRect, entity)) {
-            canStand = false;
-            break;
-          }
-        }
-
-        if (canStand) {
-          player.isCrouching = false;
-          player.pos.y -= (PLAYER_SIZE - CROUCH_HEIGHT);
-          player.size.y = PLAYER_SIZE;
-        }
-      }
-
-      // X Movement
-      let targetSpeed = 0;
-      if (keys['ArrowRight'] || keys['KeyD']) {
-        targetSpeed = isRunning ? EFFECTIVE_RUN_SPEED : (player.isCrouching ? EFFECTIVE_CROUCH_SPEED : EFFECTIVE_MOVE_SPEED);
-        player.facingRight = true;
-      } else if (keys['ArrowLeft'] || keys['KeyA']) {
-        targetSpeed = -(isRunning ? EFFECTIVE_RUN_SPEED : (player.isCrouching ? EFFECTIVE_CROUCH_SPEED : EFFECTIVE_MOVE_SPEED));
-        player.facingRight = false;
-      }
-
-      // Smooth acceleration/deceleration
-      player.vel.x += (targetSpeed - player.vel.x) * 0.2;
-
       // Spawn running dust
+      const player = sim.player;
       if (player.isGrounded && Math.abs(player.vel.x) > 1 && Math.random() < 0.2) {
          spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + player.size.y, 1, 'dust');
       }
 
-      // Y Movement (Gravity)
-      player.vel.y += EFFECTIVE_GRAVITY;
-      if (player.vel.y > EFFECTIVE_MAX_FALL) {
-        player.vel.y = EFFECTIVE_MAX_FALL;
-      }
-
-      // Jump Logic
-      if (jumpRequested.current) {
-        if (player.jumpsRemaining > 0) {
-          player.vel.y = EFFECTIVE_JUMP_FORCE;
-          player.isGrounded = false;
-          
-          if (player.jumpsRemaining === CURRENT_MAX_JUMPS) {
-            playSound('jump');
-          } else {
-            playSound('doubleJump');
-          }
-          
-          player.jumpsRemaining--;
-          
-          // Jump particles
-          spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + player.size.y, 8, 'dust');
-        }
-        jumpRequested.current = false;
-      }
-
-      // --- Collision Detection & Physics Application ---
-      
-      // X Axis
-      player.pos.x += player.vel.x;
-      if (player.pos.x < 0) { player.pos.x = 0; player.vel.x = 0; }
-      if (player.pos.x > level.width - player.size.x) { player.pos.x = level.width - player.size.x; player.vel.x = 0; }
-
-      for (const entity of entitiesRef.current) {
-        if (entity.type === 'text') continue;
-        if ((entity.type === 'platform' || entity.type === 'bouncy') && checkCollision(player, entity)) {
-          if (player.vel.x > 0) {
-            player.pos.x = entity.pos.x - player.size.x;
-          } else if (player.vel.x < 0) {
-            player.pos.x = entity.pos.x + entity.size.x;
-          }
-          player.vel.x = 0;
-        }
-      }
-
-      // Y Axis
-      player.pos.y += player.vel.y;
-      
-      if (player.pos.y > level.height) {
-        player.isDead = true;
-      }
-
-      let groundedThisFrame = false;
-      for (const entity of entitiesRef.current) {
-        if (entity.type === 'text') continue;
-        if ((entity.type === 'platform' || entity.type === 'bouncy') && checkCollision(player, entity)) {
-           if (player.vel.y > 0) { // Falling
-             if (entity.type === 'bouncy') {
-               // BOUNCE LOGIC
-               player.pos.y = entity.pos.y - player.size.y;
-               player.vel.y = BOUNCE_FORCE;
-               player.isGrounded = false;
-               player.jumpsRemaining = CURRENT_MAX_JUMPS; // Restore double jump? Optional. Let's say yes for fun.
-               spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + player.size.y, 12, 'bouncy');
-               playSound('bounce');
-             } else {
-               // LAND LOGIC
-               player.pos.y = entity.pos.y - player.size.y;
-               if (!player.isGrounded) {
-                 // Just landed
-                 spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + player.size.y, 10, 'dust');
-               }
-               player.vel.y = 0;
-               groundedThisFrame = true;
-             }
-           } else if (player.vel.y < 0) { // Jumping into ceiling
-             player.pos.y = entity.pos.y + entity.size.y;
-             player.vel.y = 0;
-           }
-        }
-      }
-
-      player.isGrounded = groundedThisFrame;
-
-      if (player.isGrounded) {
-        player.jumpsRemaining = CURRENT_MAX_JUMPS;
+      // Spawn wall slide dust along the touching side
+      if (player.isWallSliding && Math.random() < 0.3) {
+        spawnParticles(player.wallDir > 0 ? player.pos.x + player.size.x : player.pos.x, player.pos.y + player.size.y, 1, 'dust');
       }
+    };
 
-      // --- Interaction ---
-      for (const entity of entitiesRef.current) {
-        if (!entity.active && entity.type !== 'checkpoint') continue;
-        if (entity.type === 'text') continue;
-
-        if (checkCollision(player, entity)) {
-          if (entity.type === 'coin' && !entity.collected) {
-            entity.collected = true;
-            entity.active = false;
-            // Sparkle effect
-            spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y + entity.size.y/2, 15, 'sparkle');
-            playSound('coin');
-            onCoinCollect(entity.id);
-          } else if (entity.type === 'spike' || entity.type === 'lava') {
-            
-            // DAMAGE LOGIC
-            if (timeRef.current > player.invulnerableUntil) {
-              const damage = entity.damage ?? 1000;
-              player.hp -= damage;
-              onHealthUpdate(player.hp);
-              
-              shakeRef.current = 10; // Screen shake
-
-              if (player.hp > 0) {
-                playSound('hurt');
-                player.invulnerableUntil = timeRef.current + 60;
-                player.vel.y = -5;
-                player.vel.x = -player.vel.x * 1.5;
-                spawnParticles(player.pos.x + PLAYER_SIZE/2, player.pos.y + PLAYER_SIZE/2, 10, 'blood');
-              } else {
-                player.isDead = true;
-              }
-            }
-
-          } else if (entity.type === 'finish') {
-            if (!levelCompleteTriggered.current) {
-              levelCompleteTriggered.current = true;
-              spawnParticles(player.pos.x, player.pos.y, 50, 'sparkle');
-              playSound('win');
-              onLevelComplete();
-            }
-          } else if (entity.type === 'checkpoint') {
-            if (checkpointRef.current.x !== entity.pos.x || checkpointRef.current.y !== entity.pos.y) {
-               spawnParticles(entity.pos.x + entity.size.x/2, entity.pos.y, 20, 'sparkle');
-               playSound('coin'); // Reusing coin sound for checkpoint
-            }
-            checkpointRef.current = { x: entity.pos.x, y: entity.pos.y };
-            entity.active = true; 
-          }
+    // Fixed-timestep loop: the simulation always runs at TICK_RATE regardless of
+    // the display refresh rate, and rendering interpolates between ticks.
+    let lastFrameTime = performance.now();
+    let accumulator = 0;
+
+    const frame = (now: number) => {
+      // Clamp long gaps (tab switch, breakpoint) so we don't fast-forward
+      const elapsed = Math.min(Math.max(0, now - lastFrameTime), TICK_DURATION * MAX_TICKS_PER_FRAME);
+      lastFrameTime = now;
+
+      const sim = simRef.current;
+      if (!isPaused && sim) {
+        accumulator += elapsed;
+        while (accumulator >= TICK_DURATION) {
+          step(sim);
+          accumulator -= TICK_DURATION;
         }
       }
 
-      draw();
-      animationFrameId = requestAnimationFrame(update);
+      draw(accumulator / TICK_DURATION);
+      animationFrameId = requestAnimationFrame(frame);
     };
 
-    const draw = () => {
+    // alpha: fraction of the next tick already elapsed, used to blend between
+    // the previous and current simulation positions
+    const draw = (alpha: number) => {
+      const sim = simRef.current;
+      if (!sim) return;
+
       // Camera Follow
-      const player = playerRef.current;
-      cameraRef.current.x = player.pos.x - canvas.width / 2 + player.size.x / 2;
-      cameraRef.current.y = player.pos.y - canvas.height / 2 + player.size.y / 2;
+      const player = sim.player;
+      const playerPos = prevPlayerPos ? lerp(prevPlayerPos, player.pos, alpha) : player.pos;
+      const time = sim.tick;
+      cameraRef.current.x = playerPos.x - canvas.width / 2 + player.size.x / 2;
+      cameraRef.current.y = playerPos.y - canvas.height / 2 + player.size.y / 2;
       
       // Add Shake
       const shakeX = (Math.random() - 0.5) * shakeRef.current;
@@ -469,8 +430,18 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.translate(-cameraRef.current.x, -cameraRef.current.y);
 
       // Draw Entities
-      entitiesRef.current.forEach(entity => {
+      visibleEntities(sim).forEach(i => {
+        const entity = sim.entities[i];
         if (!entity.active && entity.type !== 'checkpoint') return;
+        const prevPos = prevEntityPos.get(i);
+        const basePos = prevPos ? lerp(prevPos, entity.pos, alpha) : entity.pos;
+        // Crumbling platforms shake harder the closer they are to falling
+        const shake = entity.fallAt !== undefined
+          ? (1 - Math.max(0, entity.fallAt - time) / Math.max(1, entity.crumbleDelay ?? 1)) * 4 + 1
+          : 0;
+        const pos = shake
+          ? { x: basePos.x + (Math.random() - 0.5) * shake, y: basePos.y + (Math.random() - 0.5) * shake }
+          : basePos;
 
         // Render Text
         if (entity.type === 'text' && entity.text) {
@@ -480,45 +451,147 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
           ctx.textBaseline = 'top';
           ctx.shadowColor = 'rgba(0,0,0,0.5)';
           ctx.shadowBlur = 4;
-          ctx.fillText(entity.text, entity.pos.x + entity.size.x / 2, entity.pos.y);
+          ctx.fillText(entity.text, pos.x + entity.size.x / 2, pos.y);
           ctx.shadowBlur = 0;
           return;
         }
 
+        const channelColor = entity.channel ? getChannelColor(entity.channel) : COLORS.trigger;
+
+        // Targets switched off by their channel: just a dashed outline
+        if (entity.disabled) {
+          ctx.strokeStyle = channelColor;
+          ctx.globalAlpha = 0.5;
+          ctx.lineWidth = 2;
+          ctx.setLineDash([6, 6]);
+          ctx.strokeRect(pos.x + 1, pos.y + 1, entity.size.x - 2, entity.size.y - 2);
+          ctx.setLineDash([]);
+          ctx.globalAlpha = 1.0;
+          return;
+        }
+
+        // Crumbled or blinked-out platforms: a faint outline where they will come back
+        if (entity.vanished) {
+          ctx.strokeStyle = isBlinking(entity) ? COLORS.blink : COLORS.crumble;
+          ctx.globalAlpha = 0.35;
+          ctx.lineWidth = 2;
+          ctx.setLineDash([4, 6]);
+          ctx.strokeRect(pos.x + 1, pos.y + 1, entity.size.x - 2, entity.size.y - 2);
+          ctx.setLineDash([]);
+          ctx.globalAlpha = 1.0;
+          return;
+        }
+
         // --- Render Specific Entity Types ---
-        if (entity.type === 'platform') {
+        if (entity.type === 'platform' && entity.material === 'ice') {
+          // Ice block with a bright top and diagonal shine streaks
+          ctx.fillStyle = COLORS.ice;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+          ctx.fillStyle = COLORS.iceLight;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, 4);
+
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(pos.x, pos.y, entity.size.x, entity.size.y);
+          ctx.clip();
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+          ctx.lineWidth = 3;
+          for (let x = pos.x + 12; x < pos.x + entity.size.x + entity.size.y; x += 36) {
+            ctx.beginPath();
+            ctx.moveTo(x, pos.y + 6);
+            ctx.lineTo(x - 12, pos.y + entity.size.y);
+            ctx.stroke();
+          }
+          ctx.restore();
+
+        } else if (entity.type === 'platform' && entity.material === 'conveyor') {
+          // Belt with chevrons scrolling in the direction it carries the player
+          const beltSpeed = entity.conveyorSpeed ?? SURFACE_CONFIG.conveyor.speed;
+          const dir = beltSpeed < 0 ? -1 : 1;
+          const spacing = 20;
+          const scroll = ((time * beltSpeed) % spacing + spacing) % spacing;
+
+          ctx.fillStyle = COLORS.conveyor;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+          ctx.fillStyle = COLORS.platformDark;
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 4, entity.size.x, 4);
+
+          ctx.save();
+          ctx.beginPath();
+          ctx.rect(pos.x, pos.y, entity.size.x, Math.min(14, entity.size.y));
+          ctx.clip();
+          ctx.strokeStyle = COLORS.conveyorArrow;
+          ctx.lineWidth = 2;
+          for (let x = pos.x - spacing + scroll; x < pos.x + entity.size.x + spacing; x += spacing) {
+            ctx.beginPath();
+            ctx.moveTo(x - 3 * dir, pos.y + 3);
+            ctx.lineTo(x + 3 * dir, pos.y + 7);
+            ctx.lineTo(x - 3 * dir, pos.y + 11);
+            ctx.stroke();
+          }
+          ctx.restore();
+
+        } else if (entity.type === 'platform' && entity.material === 'mud') {
+          // Mud with slowly bobbing lumps along the top
+          ctx.fillStyle = COLORS.mud;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+
+          ctx.fillStyle = COLORS.mudLight;
+          for (let x = pos.x + 10; x < pos.x + entity.size.x - 6; x += 26) {
+            const bob = Math.sin(time * 0.05 + x * 0.3) * 1.5;
+            ctx.beginPath();
+            ctx.ellipse(x, pos.y + 3 + bob, 8, 4, 0, 0, Math.PI * 2);
+            ctx.fill();
+          }
+
+        } else if (entity.type === 'platform') {
           // Draw detailed block
           ctx.fillStyle = COLORS.platform;
-          ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, entity.size.y);
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
           
           // Highlight (Top edge)
           ctx.fillStyle = COLORS.platformLight;
-          ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, 4);
+          ctx.fillRect(pos.x, pos.y, entity.size.x, 4);
           
           // Shadow (Bottom/Right edge)
           ctx.fillStyle = COLORS.platformDark;
-          ctx.fillRect(entity.pos.x, entity.pos.y + entity.size.y - 4, entity.size.x, 4);
-          ctx.fillRect(entity.pos.x + entity.size.x - 4, entity.pos.y, 4, entity.size.y);
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 4, entity.size.x, 4);
+          ctx.fillRect(pos.x + entity.size.x - 4, pos.y, 4, entity.size.y);
 
         } else if (entity.type === 'bouncy') {
           // Bouncy Block
           ctx.fillStyle = COLORS.bouncy;
-          ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, entity.size.y);
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
           
           // Gel highlight
           ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-          ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, 6);
-          ctx.fillRect(entity.pos.x + 4, entity.pos.y + 4, 8, 8); // Shine spot
+          ctx.fillRect(pos.x, pos.y, entity.size.x, 6);
+          ctx.fillRect(pos.x + 4, pos.y + 4, 8, 8); // Shine spot
+
+        } else if (entity.type === 'oneway') {
+          // Plank: solid top board with open slats below, so it reads as passable from underneath
+          const board = Math.min(8, entity.size.y);
+          ctx.fillStyle = COLORS.oneway;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, board);
+          ctx.fillStyle = COLORS.onewayLight;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, 2);
+
+          ctx.globalAlpha = 0.4;
+          ctx.fillStyle = COLORS.oneway;
+          for (let x = pos.x + 6; x < pos.x + entity.size.x - 2; x += 16) {
+            ctx.fillRect(x, pos.y + board, 4, entity.size.y - board);
+          }
+          ctx.globalAlpha = 1.0;
 
         } else if (entity.type === 'coin') {
            // Animated Coin
-           const cx = entity.pos.x + entity.size.x / 2;
-           const cy = entity.pos.y + entity.size.y / 2;
+           const cx = pos.x + entity.size.x / 2;
+           const cy = pos.y + entity.size.y / 2;
            
            // Bobbing
-           const bobOffset = Math.sin(timeRef.current * 0.1) * 5;
+           const bobOffset = Math.sin(time * 0.1) * 5;
            // Spinning (width scaling)
-           const spinScale = Math.abs(Math.cos(timeRef.current * 0.15));
+           const spinScale = Math.abs(Math.cos(time * 0.15));
 
            ctx.fillStyle = COLORS.coin;
            ctx.shadowColor = '#fbbf24';
@@ -536,46 +609,46 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
 
         } else if (entity.type === 'spike') {
            // Gradient Spike
-           const grad = ctx.createLinearGradient(entity.pos.x, entity.pos.y + entity.size.y, entity.pos.x, entity.pos.y);
+           const grad = ctx.createLinearGradient(pos.x, pos.y + entity.size.y, pos.x, pos.y);
            const baseColor = (entity.damage && entity.damage < 100) ? COLORS.weakSpike : COLORS.spike;
            grad.addColorStop(0, '#7f1d1d'); // Dark base
            grad.addColorStop(1, baseColor);  // Bright tip
 
            ctx.fillStyle = grad;
            ctx.beginPath();
-           ctx.moveTo(entity.pos.x, entity.pos.y + entity.size.y);
-           ctx.lineTo(entity.pos.x + entity.size.x / 2, entity.pos.y);
-           ctx.lineTo(entity.pos.x + entity.size.x, entity.pos.y + entity.size.y);
+           ctx.moveTo(pos.x, pos.y + entity.size.y);
+           ctx.lineTo(pos.x + entity.size.x / 2, pos.y);
+           ctx.lineTo(pos.x + entity.size.x, pos.y + entity.size.y);
            ctx.fill();
 
         } else if (entity.type === 'lava') {
            // Wavy Lava
            ctx.fillStyle = COLORS.lava;
            // Base rect
-           ctx.fillRect(entity.pos.x, entity.pos.y + 5, entity.size.x, entity.size.y - 5);
+           ctx.fillRect(pos.x, pos.y + 5, entity.size.x, entity.size.y - 5);
            
            // Wavy top
            ctx.beginPath();
-           ctx.moveTo(entity.pos.x, entity.pos.y + 5);
+           ctx.moveTo(pos.x, pos.y + 5);
            for (let lx = 0; lx <= entity.size.x; lx += 10) {
-              const waveY = Math.sin((lx + entity.pos.x + timeRef.current * 2) * 0.05) * 4;
-              ctx.lineTo(entity.pos.x + lx, entity.pos.y + 5 + waveY);
+              const waveY = Math.sin((lx + pos.x + time * 2) * 0.05) * 4;
+              ctx.lineTo(pos.x + lx, pos.y + 5 + waveY);
            }
-           ctx.lineTo(entity.pos.x + entity.size.x, entity.pos.y + entity.size.y);
-           ctx.lineTo(entity.pos.x, entity.pos.y + entity.size.y);
+           ctx.lineTo(pos.x + entity.size.x, pos.y + entity.size.y);
+           ctx.lineTo(pos.x, pos.y + entity.size.y);
            ctx.fill();
 
         } else if (entity.type === 'checkpoint') {
-           const isCurrent = checkpointRef.current.x === entity.pos.x && checkpointRef.current.y === entity.pos.y;
+           const isCurrent = sim.checkpoint.x === entity.pos.x && sim.checkpoint.y === entity.pos.y;
            const color = isCurrent ? COLORS.checkpointActive : COLORS.checkpoint; 
            
            // Base
            ctx.fillStyle = '#1e293b';
-           ctx.fillRect(entity.pos.x, entity.pos.y + entity.size.y - 4, entity.size.x, 4);
+           ctx.fillRect(pos.x, pos.y + entity.size.y - 4, entity.size.x, 4);
 
            // Pole
            ctx.fillStyle = '#475569';
-           ctx.fillRect(entity.pos.x + 4, entity.pos.y, 4, entity.size.y);
+           ctx.fillRect(pos.x + 4, pos.y, 4, entity.size.y);
 
            // Flag
            ctx.fillStyle = color;
@@ -584,28 +657,231 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
              ctx.shadowBlur = 10;
            }
            ctx.beginPath();
-           ctx.moveTo(entity.pos.x + 8, entity.pos.y + 4);
-           ctx.lineTo(entity.pos.x + 24, entity.pos.y + 12);
-           ctx.lineTo(entity.pos.x + 8, entity.pos.y + 20);
+           ctx.moveTo(pos.x + 8, pos.y + 4);
+           ctx.lineTo(pos.x + 24, pos.y + 12);
+           ctx.lineTo(pos.x + 8, pos.y + 20);
            ctx.fill();
            ctx.shadowBlur = 0;
 
         } else if (entity.type === 'finish') {
            ctx.fillStyle = COLORS.finish;
-           ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, entity.size.y);
+           ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
            // Chequerboard pattern inside
            ctx.fillStyle = 'rgba(255,255,255,0.2)';
            const checkSize = 10;
            for(let y=0; y<entity.size.y; y+=checkSize) {
              for(let x=0; x<entity.size.x; x+=checkSize) {
                if ((x/checkSize + y/checkSize) % 2 === 0) {
-                 ctx.fillRect(entity.pos.x + x, entity.pos.y + y, checkSize, checkSize);
+                 ctx.fillRect(pos.x + x, pos.y + y, checkSize, checkSize);
                }
              }
            }
+
+        } else if (entity.type === 'door') {
+          // Barred gate in its channel's color
+          ctx.fillStyle = COLORS.platformDark;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+          ctx.fillStyle = channelColor;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, 4);
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 4, entity.size.x, 4);
+          for (let x = pos.x + 3; x < pos.x + entity.size.x - 3; x += 10) {
+            ctx.fillRect(x, pos.y, 4, entity.size.y);
+          }
+
+        } else if (entity.type === 'plate') {
+          // Pressure plate sinks while pressed
+          const height = entity.isOn ? 3 : 7;
+          ctx.fillStyle = COLORS.platformDark;
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 3, entity.size.x, 3);
+          ctx.fillStyle = channelColor;
+          ctx.fillRect(pos.x + 3, pos.y + entity.size.y - 3 - height, entity.size.x - 6, height);
+
+        } else if (entity.type === 'lever') {
+          // Stick leans right when on, left when off
+          const baseY = pos.y + entity.size.y - 6;
+          const cx = pos.x + entity.size.x / 2;
+          const angle = entity.isOn ? 0.6 : -0.6;
+          const length = entity.size.y - 12;
+          const tipX = cx + Math.sin(angle) * length;
+          const tipY = baseY - Math.cos(angle) * length;
+
+          ctx.strokeStyle = COLORS.trigger;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(cx, baseY);
+          ctx.lineTo(tipX, tipY);
+          ctx.stroke();
+          ctx.fillStyle = channelColor;
+          ctx.beginPath();
+          ctx.arc(tipX, tipY, 4, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = COLORS.platformLight;
+          ctx.fillRect(pos.x, baseY, entity.size.x, 6);
+
+        } else if (entity.type === 'button') {
+          // Timed button with a ring showing the time left
+          const isOn = isTriggerOn(entity, time);
+          const height = isOn ? 3 : 7;
+          const cx = pos.x + entity.size.x / 2;
+          ctx.fillStyle = COLORS.platformDark;
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 4, entity.size.x, 4);
+          ctx.fillStyle = channelColor;
+          ctx.fillRect(pos.x + 4, pos.y + entity.size.y - 4 - height, entity.size.x - 8, height);
+
+          if (isOn) {
+            const remaining = ((entity.onUntil ?? 0) - time) / (entity.duration ?? DEFAULT_BUTTON_DURATION);
+            ctx.strokeStyle = channelColor;
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.arc(cx, pos.y - 8, 7, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * remaining);
+            ctx.stroke();
+          }
+
+        } else if (entity.type === 'key') {
+          // Floating key, bobbing like a coin
+          const bob = Math.sin(time * 0.1 + 1) * 4;
+          const cy = pos.y + entity.size.y / 2 + bob;
+          const radius = entity.size.y / 4;
+
+          ctx.strokeStyle = COLORS.coin;
+          ctx.fillStyle = COLORS.coin;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.arc(pos.x + radius + 2, cy, radius, 0, Math.PI * 2);
+          ctx.stroke();
+          ctx.fillRect(pos.x + radius * 2 + 2, cy - 1.5, entity.size.x - radius * 2 - 2, 3);
+          ctx.fillRect(pos.x + entity.size.x - 4, cy, 3, 5);
+          ctx.fillRect(pos.x + entity.size.x - 9, cy, 3, 4);
+          ctx.fillStyle = channelColor;
+          ctx.beginPath();
+          ctx.arc(pos.x + radius + 2, cy, radius / 2, 0, Math.PI * 2);
+          ctx.fill();
+
+        } else if (entity.type === 'turret') {
+          // Armored block with a barrel along its aim and a light that fills up before each shot
+          const cx = pos.x + entity.size.x / 2;
+          const cy = pos.y + entity.size.y / 2;
+          const angle = ((entity.fireAngle ?? 0) * Math.PI) / 180;
+          const interval = Math.max(1, entity.fireInterval ?? TURRET_FIRE_INTERVAL);
+          const charge = ((time + (entity.fireOffset ?? 0)) % interval) / interval;
+
+          ctx.fillStyle = COLORS.turret;
+          ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+          ctx.fillStyle = COLORS.platformDark;
+          ctx.fillRect(pos.x + 3, pos.y + 3, entity.size.x - 6, entity.size.y - 6);
+
+          ctx.save();
+          ctx.translate(cx, cy);
+          ctx.rotate(angle);
+          ctx.fillStyle = COLORS.turretBarrel;
+          ctx.fillRect(0, -5, Math.max(entity.size.x, entity.size.y) / 2 + 4, 10);
+          ctx.restore();
+
+          ctx.fillStyle = COLORS.projectile;
+          ctx.globalAlpha = 0.3 + charge * 0.7;
+          ctx.beginPath();
+          ctx.arc(cx, cy, 3 + charge * 4, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.globalAlpha = 1;
+
+        } else if (entity.type === 'enemy') {
+          // Cube like the player, squashed while airborne, eyes toward where it's heading
+          const behavior = entity.behavior ?? 'walker';
+          const facing = entity.facing ?? -1;
+          const stretch = entity.onGround ? 0 : Math.min(4, Math.abs(entity.vel?.y ?? 0));
+          const w = entity.size.x - stretch;
+          const h = entity.size.y + stretch;
+          const x = pos.x + stretch / 2;
+          const y = pos.y + entity.size.y - h;
+
+          ctx.fillStyle = COLORS[behavior];
+          traceRoundedRect(ctx, x, y, w, h, 6);
+          ctx.fill();
+
+          // Angry brows and eyes
+          const eyeY = y + h * 0.35;
+          const eyeX = x + w / 2 + facing * 4;
+          ctx.fillStyle = 'white';
+          ctx.beginPath();
+          ctx.arc(eyeX - 5, eyeY, 3.5, 0, Math.PI * 2);
+          ctx.arc(eyeX + 5, eyeY, 3.5, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.fillStyle = '#0f172a';
+          ctx.beginPath();
+          ctx.arc(eyeX - 5 + facing * 1.5, eyeY, 1.8, 0, Math.PI * 2);
+          ctx.arc(eyeX + 5 + facing * 1.5, eyeY, 1.8, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.strokeStyle = '#0f172a';
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          ctx.moveTo(eyeX - 9, eyeY - 7);
+          ctx.lineTo(eyeX - 2, eyeY - 4);
+          ctx.moveTo(eyeX + 9, eyeY - 7);
+          ctx.lineTo(eyeX + 2, eyeY - 4);
+          ctx.stroke();
+
+          // Chasers that spotted the player
+          if (entity.isChasing) {
+            ctx.fillStyle = COLORS.spike;
+            ctx.font = "bold 18px 'Segoe UI', sans-serif";
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'bottom';
+            ctx.fillText('!', x + w / 2, y - 4);
+          }
+        }
+
+        // Timed platforms: cracks on crumbling ones; blinking ones get a border and a bar
+        // counting down their solid time, and flicker just before switching off
+        if (isCrumbling(entity)) {
+          const depth = Math.min(entity.size.y, entity.type === 'oneway' ? 8 : 16) - 2; // Oneway: just the top board
+          ctx.strokeStyle = COLORS.crumble;
+          ctx.lineWidth = 2;
+          ctx.beginPath();
+          for (let x = pos.x + 14; x < pos.x + entity.size.x - 6; x += 40) {
+            ctx.moveTo(x, pos.y + 1);
+            ctx.lineTo(x + 4, pos.y + depth * 0.4);
+            ctx.lineTo(x - 2, pos.y + depth * 0.7);
+            ctx.lineTo(x + 3, pos.y + depth);
+          }
+          ctx.stroke();
+        } else if (isBlinking(entity)) {
+          const ticksLeft = getBlinkTicksLeft(entity, time);
+          const onTicks = Math.max(2, entity.blinkPeriod ?? DEFAULT_BLINK_PERIOD) / 2;
+          ctx.strokeStyle = COLORS.blink;
+          ctx.lineWidth = 2;
+          ctx.strokeRect(pos.x + 1, pos.y + 1, entity.size.x - 2, entity.size.y - 2);
+          ctx.fillStyle = COLORS.blink;
+          ctx.fillRect(pos.x, pos.y + entity.size.y - 3, entity.size.x * Math.min(1, ticksLeft / onTicks), 3);
+
+          if (ticksLeft <= BLINK_WARNING_TICKS && Math.floor(time / 4) % 2 === 0) {
+            ctx.fillStyle = COLORS.background;
+            ctx.globalAlpha = 0.6;
+            ctx.fillRect(pos.x, pos.y, entity.size.x, entity.size.y);
+            ctx.globalAlpha = 1.0;
+          }
+        }
+
+        // Channel marker on switchable platforms and hazards
+        if (entity.channel && !isTrigger(entity) && entity.type !== 'door') {
+          ctx.fillStyle = channelColor;
+          ctx.fillRect(pos.x + 3, pos.y + 3, 6, 6);
         }
       });
 
+      // --- Draw Projectiles ---
+      ctx.fillStyle = COLORS.projectile;
+      ctx.shadowColor = COLORS.projectile;
+      ctx.shadowBlur = 8;
+      sim.projectiles.forEach(projectile => {
+        if (!projectile.active) return;
+        const prevPos = { x: projectile.pos.x - projectile.vel.x, y: projectile.pos.y - projectile.vel.y };
+        const pos = lerp(prevPos, projectile.pos, alpha);
+        ctx.beginPath();
+        ctx.arc(pos.x + projectile.size.x / 2, pos.y + projectile.size.y / 2, projectile.size.x / 2, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.shadowBlur = 0;
+
       // --- Draw Particles ---
       particlesRef.current.forEach(p => {
         ctx.globalAlpha = Math.max(0, p.life / p.maxLife);
@@ -630,22 +906,31 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       });
       ctx.globalAlpha = 1.0;
 
+      // --- Draw Ghost ---
+      if (ghost) {
+        const ghostPos = lerp(ghostPositionAt(ghost, time - 1), ghostPositionAt(ghost, time), alpha);
+        ctx.globalAlpha = 0.35;
+        ctx.fillStyle = COLORS.ghost;
+        traceRoundedRect(ctx, ghostPos.x, ghostPos.y, PLAYER_SIZE, PLAYER_SIZE, 8);
+        ctx.fill();
+        ctx.globalAlpha = 1.0;
+      }
+
       // --- Draw Player ---
-      const isInvulnerable = timeRef.current < player.invulnerableUntil;
-      if (isInvulnerable && Math.floor(timeRef.current / 4) % 2 === 0) {
+      if (isInvulnerable(player, time) && Math.floor(time / 4) % 2 === 0) {
         ctx.globalAlpha = 0.5;
       }
       
       // Shadow
       ctx.fillStyle = 'rgba(0,0,0,0.3)';
       ctx.beginPath();
-      ctx.ellipse(player.pos.x + player.size.x/2, player.pos.y + player.size.y + 2, player.size.x/2, 4, 0, 0, Math.PI*2);
+      ctx.ellipse(playerPos.x + player.size.x/2, playerPos.y + player.size.y + 2, player.size.x/2, 4, 0, 0, Math.PI*2);
       ctx.fill();
 
       // Body (Rounded Rect)
       const r = 8; // Radius
-      const x = player.pos.x;
-      const y = player.pos.y;
+      const x = playerPos.x;
+      const y = playerPos.y;
       const w = player.size.x;
       const h = player.size.y;
 
@@ -655,16 +940,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       gradient.addColorStop(1, playerColor);
 
       ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.moveTo(x + r, y);
-      ctx.lineTo(x + w - r, y);
-      ctx.quadraticCurveTo(x + w, y, x + w, y + r);
-      ctx.lineTo(x + w, y + h - r);
-      ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
-      ctx.lineTo(x + r, y + h);
-      ctx.quadraticCurveTo(x, y + h, x, y + h - r);
-      ctx.lineTo(x, y + r);
-      ctx.quadraticCurveTo(x, y, x + r, y);
+      traceRoundedRect(ctx, x, y, w, h, r);
       ctx.fill();
 
       // Eyes
@@ -739,13 +1015,13 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     handleResize();
 
     // Start loop
-    animationFrameId = requestAnimationFrame(update);
+    animationFrameId = requestAnimationFrame(frame);
 
     return () => {
       window.removeEventListener('resize', handleResize);
       cancelAnimationFrame(animationFrameId);
     };
-  }, [level, isPaused, onCoinCollect, onDeath, onLevelComplete, modifiers, maxHp, onHealthUpdate, EFFECTIVE_GRAVITY, EFFECTIVE_MOVE_SPEED, EFFECTIVE_RUN_SPEED, EFFECTIVE_CROUCH_SPEED, EFFECTIVE_JUMP_FORCE, CURRENT_MAX_JUMPS, EFFECTIVE_MAX_FALL]);
+  }, [level, isPaused, onCoinCollect, onDeath, onLevelComplete, modifiers, maxHp, onHealthUpdate, replay, ghost, onTick]);
 
   return <canvas ref={canvasRef} className="block" />;
 };
@@ -0,0 +1,793 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Entity, EntityType, EnemyBehavior, LevelData, Vector, PathEasing, PathMode, SurfaceMaterial } from '../types';
+import {
+  TILE_SIZE, COLORS, PLAYER_SIZE, CUSTOM_LEVEL_ID, SURFACE_CONFIG, DEFAULT_BUTTON_DURATION,
+  DEFAULT_PATROL_SPEED, TURRET_FIRE_INTERVAL, PROJECTILE_SPEED, DEFAULT_CRUMBLE_DELAY, DEFAULT_RESPAWN_DELAY, DEFAULT_BLINK_PERIOD
+} from '../constants';
+import { getChannelColor, isTrigger } from '../utils/triggers';
+import { ArrowLeft, Play, Trash2, MousePointer2, User, FolderOpen, Save } from 'lucide-react';
+
+interface LevelEditorProps {
+  level: LevelData;
+  onChange: (level: LevelData) => void;
+  onPlayTest: (level: LevelData) => void;
+  onExit: () => void;
+  onOpenFile: () => void;
+  onSaveFile: (level: LevelData) => void;
+  error?: string | null;
+  warnings?: string[]; // Import notes, e.g. Tiled features that were skipped
+}
+
+type PlaceableType = Exclude<EntityType, 'player'>;
+type EditorTool = 'select' | 'spawn' | PlaceableType;
+
+// Active mouse gesture on the editor canvas
+type DragState =
+  | { mode: 'place'; type: PlaceableType; start: Vector; current: Vector } // Tile coordinates
+  | { mode: 'move'; id: string; grabOffset: Vector }
+  | { mode: 'resize'; id: string }
+  | { mode: 'pan'; last: Vector };
+
+export const PLACEABLE_TYPES: PlaceableType[] = [
+  'platform', 'oneway', 'bouncy', 'spike', 'lava', 'coin', 'checkpoint', 'finish', 'text',
+  'door', 'plate', 'lever', 'button', 'key', 'enemy', 'turret',
+];
+
+const MOVABLE_TYPES: PlaceableType[] = ['platform', 'oneway', 'bouncy', 'spike', 'lava'];
+
+// Entities that can be switched on and off by a channel
+const TARGET_TYPES: PlaceableType[] = ['platform', 'oneway', 'bouncy', 'spike', 'lava', 'door', 'turret'];
+
+type MotionKind = 'none' | 'patrol' | 'path' | 'orbit';
+type TimingKind = 'none' | 'crumble' | 'blink';
+
+const getMotionKind = (entity: Entity): MotionKind =>
+  entity.path ? 'path' : entity.orbit ? 'orbit' : entity.patrolRange ? 'patrol' : 'none';
+
+// Movement fields to apply when switching an entity to another kind of motion
+const MOTION_DEFAULTS: Record<MotionKind, Partial<Entity>> = {
+  none: { patrolRange: undefined, path: undefined, orbit: undefined },
+  patrol: { patrolRange: { x: 2 * TILE_SIZE, y: 0 }, moveSpeed: DEFAULT_PATROL_SPEED, moveOffset: 0, path: undefined, orbit: undefined },
+  path: {
+    patrolRange: undefined,
+    orbit: undefined,
+    path: { points: [{ x: 3 * TILE_SIZE, y: 0 }], easing: 'eased', mode: 'pingpong', speed: 2, pause: 30 },
+  },
+  orbit: { patrolRange: undefined, path: undefined, orbit: { radius: 2 * TILE_SIZE, speed: 0.03, phase: 0 } },
+};
+
+// Size in tiles used when a type is placed with a single click
+const DEFAULT_SIZES: Record<PlaceableType, Vector> = {
+  platform: { x: 1, y: 1 },
+  bouncy: { x: 1, y: 1 },
+  oneway: { x: 3, y: 0.5 },
+  spike: { x: 1, y: 1 },
+  lava: { x: 1, y: 1 },
+  coin: { x: 0.5, y: 0.5 },
+  checkpoint: { x: 1, y: 2 },
+  finish: { x: 2, y: 3 },
+  text: { x: 0, y: 0 },
+  door: { x: 0.5, y: 3 },
+  plate: { x: 1, y: 0.5 },
+  lever: { x: 0.5, y: 1 },
+  button: { x: 0.5, y: 0.5 },
+  key: { x: 0.5, y: 0.5 },
+  enemy: { x: 1, y: 1 },
+  turret: { x: 1, y: 1 },
+};
+
+const TYPE_COLORS: Record<PlaceableType, string> = {
+  platform: COLORS.platform,
+  bouncy: COLORS.bouncy,
+  oneway: COLORS.oneway,
+  spike: COLORS.spike,
+  lava: COLORS.lava,
+  coin: COLORS.coin,
+  checkpoint: COLORS.checkpoint,
+  finish: COLORS.finish,
+  text: '#94a3b8',
+  door: COLORS.platformLight,
+  plate: COLORS.trigger,
+  lever: COLORS.trigger,
+  button: COLORS.trigger,
+  key: COLORS.coin,
+  enemy: COLORS.walker,
+  turret: COLORS.turret,
+};
+
+const MATERIAL_COLORS: Record<SurfaceMaterial, string> = {
+  ice: COLORS.ice,
+  conveyor: COLORS.conveyor,
+  mud: COLORS.mud,
+};
+
+const ENEMY_COLORS: Record<EnemyBehavior, string> = {
+  walker: COLORS.walker,
+  jumper: COLORS.jumper,
+  chaser: COLORS.chaser,
+};
+
+const SNAP = TILE_SIZE / 2; // Moving and resizing snap to half tiles
+const HANDLE_SIZE = 10;
+const MIN_WIDTH_TILES = 10;
+const MIN_HEIGHT_TILES = 6;
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+export const createEmptyLevel = (): LevelData => ({
+  id: CUSTOM_LEVEL_ID,
+  name: 'Custom Level',
+  spawnPos: { x: TILE_SIZE, y: TILE_SIZE * 10 },
+  width: TILE_SIZE * 40,
+  height: TILE_SIZE * 15,
+  entities: [
+    { id: 'platform-1', type: 'platform', pos: { x: 0, y: TILE_SIZE * 13 }, size: { x: TILE_SIZE * 40, y: TILE_SIZE * 2 }, active: true },
+  ],
+});
+
+// Next free "<type>-<n>" id. Ids only need to be unique within the level.
+const nextEntityId = (entities: Entity[], type: EntityType) => {
+  const prefix = `${type}-`;
+  const max = entities.reduce((acc, e) => {
+    const n = e.id.startsWith(prefix) ? parseInt(e.id.slice(prefix.length), 10) : NaN;
+    return isNaN(n) ? acc : Math.max(acc, n);
+  }, 0);
+  return `${prefix}${max + 1}`;
+};
+
+const hitTest = (entity: Entity, point: Vector) => {
+  // Text has no size, so give it a clickable area around its anchor
+  const w = entity.type === 'text' ? TILE_SIZE * 4 : entity.size.x;
+  const h = entity.type === 'text' ? TILE_SIZE : entity.size.y;
+  const x = entity.type === 'text' ? entity.pos.x - w / 2 : entity.pos.x;
+  return point.x >= x && point.x <= x + w && point.y >= entity.pos.y && point.y <= entity.pos.y + h;
+};
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ level, onChange, onPlayTest, onExit, onOpenFile, onSaveFile, error, warnings = [] }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<EditorTool>('platform');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [camera, setCamera] = useState<Vector>({ x: 0, y: 0 });
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [, setViewport] = useState<Vector>({ x: 0, y: 0 }); // Re-render (and redraw) on resize
+
+  const selected = level.entities.find(e => e.id === selectedId) ?? null;
+
+  const updateEntity = (id: string, changes: Partial<Entity>) => {
+    onChange({
+      ...level,
+      entities: level.entities.map(e => (e.id === id ? { ...e, ...changes } : e)),
+    });
+  };
+
+  const deleteEntity = (id: string) => {
+    onChange({ ...level, entities: level.entities.filter(e => e.id !== id) });
+    setSelectedId(null);
+  };
+
+  // Keep the canvas sized to its container
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleResize = () => {
+      const parent = canvas.parentElement;
+      if (!parent) return;
+      canvas.width = parent.clientWidth;
+      canvas.height = parent.clientHeight;
+      setViewport({ x: canvas.width, y: canvas.height });
+    };
+    window.addEventListener('resize', handleResize);
+    handleResize();
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  // Delete the selection with Delete/Backspace (unless typing in a field)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!selectedId) return;
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        deleteEntity(selectedId);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const toWorld = (e: React.MouseEvent): Vector => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left + camera.x, y: e.clientY - rect.top + camera.y };
+  };
+
+  const toTile = (world: Vector): Vector => ({
+    x: Math.floor(world.x / TILE_SIZE),
+    y: Math.floor(world.y / TILE_SIZE),
+  });
+
+  const isOnResizeHandle = (entity: Entity, world: Vector) =>
+    entity.type !== 'text' &&
+    world.x >= entity.pos.x + entity.size.x - HANDLE_SIZE &&
+    world.x <= entity.pos.x + entity.size.x + HANDLE_SIZE / 2 &&
+    world.y >= entity.pos.y + entity.size.y - HANDLE_SIZE &&
+    world.y <= entity.pos.y + entity.size.y + HANDLE_SIZE / 2;
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    // Right or middle button pans the view
+    if (e.button !== 0) {
+      setDrag({ mode: 'pan', last: { x: e.clientX, y: e.clientY } });
+      return;
+    }
+
+    const world = toWorld(e);
+
+    if (tool === 'spawn') {
+      onChange({ ...level, spawnPos: { x: snap(world.x - PLAYER_SIZE / 2), y: snap(world.y - PLAYER_SIZE / 2) } });
+      return;
+    }
+
+    if (tool === 'select') {
+      if (selected && isOnResizeHandle(selected, world)) {
+        setDrag({ mode: 'resize', id: selected.id });
+        return;
+      }
+      // Topmost (last drawn) entity wins
+      const hit = [...level.entities].reverse().find(entity => hitTest(entity, world));
+      setSelectedId(hit ? hit.id : null);
+      if (hit) {
+        setDrag({ mode: 'move', id: hit.id, grabOffset: { x: world.x - hit.pos.x, y: world.y - hit.pos.y } });
+      }
+      return;
+    }
+
+    const tile = toTile(world);
+    setDrag({ mode: 'place', type: tool, start: tile, current: tile });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!drag) return;
+
+    if (drag.mode === 'pan') {
+      setCamera(prev => ({ x: prev.x - (e.clientX - drag.last.x), y: prev.y - (e.clientY - drag.last.y) }));
+      setDrag({ mode: 'pan', last: { x: e.clientX, y: e.clientY } });
+      return;
+    }
+
+    const world = toWorld(e);
+    if (drag.mode === 'place') {
+      setDrag({ ...drag, current: toTile(world) });
+    } else if (drag.mode === 'move') {
+      updateEntity(drag.id, { pos: { x: snap(world.x - drag.grabOffset.x), y: snap(world.y - drag.grabOffset.y) } });
+    } else if (drag.mode === 'resize' && selected) {
+      updateEntity(drag.id, {
+        size: {
+          x: Math.max(SNAP, snap(world.x - selected.pos.x)),
+          y: Math.max(SNAP, snap(world.y - selected.pos.y)),
+        },
+      });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (drag?.mode === 'place') {
+      const { type, start, current } = drag;
+      const minX = Math.min(start.x, current.x);
+      const minY = Math.min(start.y, current.y);
+      const isClick = start.x === current.x && start.y === current.y;
+      const size = isClick
+        ? DEFAULT_SIZES[type]
+        : { x: Math.abs(current.x - start.x) + 1, y: Math.abs(current.y - start.y) + 1 };
+
+      let text: string | undefined;
+      if (type === 'text') {
+        text = window.prompt('Sign text', 'New Sign') ?? undefined;
+        if (!text) {
+          setDrag(null);
+          return;
+        }
+      }
+
+      const entity: Entity = {
+        id: nextEntityId(level.entities, type),
+        type,
+        pos: { x: minX * TILE_SIZE, y: minY * TILE_SIZE },
+        size: type === 'text' ? { x: 0, y: 0 } : { x: size.x * TILE_SIZE, y: size.y * TILE_SIZE },
+        active: true,
+        ...(type === 'text' ? { text, fontSize: 24 } : {}),
+      };
+      onChange({ ...level, entities: [...level.entities, entity] });
+      setSelectedId(entity.id);
+    }
+    setDrag(null);
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setCamera(prev => ({ x: prev.x + (e.shiftKey ? e.deltaY : e.deltaX), y: prev.y + (e.shiftKey ? 0 : e.deltaY) }));
+  };
+
+  // Redraw after every render; the editor only changes in response to input
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.save();
+    ctx.translate(-camera.x, -camera.y);
+
+    // Level bounds
+    ctx.fillStyle = '#111c33';
+    ctx.fillRect(0, 0, level.width, level.height);
+
+    // Tile grid (visible part only)
+    ctx.strokeStyle = '#1e293b';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    const startX = Math.floor(camera.x / TILE_SIZE) * TILE_SIZE;
+    const startY = Math.floor(camera.y / TILE_SIZE) * TILE_SIZE;
+    for (let x = startX; x < camera.x + canvas.width; x += TILE_SIZE) {
+      ctx.moveTo(x, camera.y);
+      ctx.lineTo(x, camera.y + canvas.height);
+    }
+    for (let y = startY; y < camera.y + canvas.height; y += TILE_SIZE) {
+      ctx.moveTo(camera.x, y);
+      ctx.lineTo(camera.x + canvas.width, y);
+    }
+    ctx.stroke();
+
+    ctx.strokeStyle = '#475569';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(0, 0, level.width, level.height);
+
+    // Entities
+    level.entities.forEach(entity => {
+      const type = entity.type as PlaceableType;
+      if (entity.type === 'text') {
+        ctx.fillStyle = TYPE_COLORS.text;
+        ctx.font = `bold ${entity.fontSize || 20}px 'Segoe UI', sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.fillText(entity.text || '', entity.pos.x, entity.pos.y);
+        return;
+      }
+
+      ctx.fillStyle =
+        (entity.material && MATERIAL_COLORS[entity.material]) ??
+        (entity.behavior && ENEMY_COLORS[entity.behavior]) ??
+        TYPE_COLORS[type] ?? '#fff';
+      ctx.globalAlpha = type === 'checkpoint' || type === 'finish' ? 0.7 : 1;
+      ctx.fillRect(entity.pos.x, entity.pos.y, entity.size.x, entity.size.y);
+      ctx.globalAlpha = 1;
+
+      // Timed platforms: crumbling ones dashed, blinking ones outlined
+      if (entity.crumbleDelay !== undefined || entity.blinkPeriod !== undefined) {
+        ctx.strokeStyle = entity.blinkPeriod !== undefined ? COLORS.blink : COLORS.crumble;
+        ctx.lineWidth = 2;
+        ctx.setLineDash(entity.blinkPeriod !== undefined ? [] : [4, 3]);
+        ctx.strokeRect(entity.pos.x + 1, entity.pos.y + 1, entity.size.x - 2, entity.size.y - 2);
+        ctx.setLineDash([]);
+      }
+
+      // Turret aim
+      if (entity.type === 'turret') {
+        const angle = ((entity.fireAngle ?? 0) * Math.PI) / 180;
+        const cx = entity.pos.x + entity.size.x / 2;
+        const cy = entity.pos.y + entity.size.y / 2;
+        ctx.strokeStyle = COLORS.projectile;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(cx, cy);
+        ctx.lineTo(cx + Math.cos(angle) * TILE_SIZE, cy + Math.sin(angle) * TILE_SIZE);
+        ctx.stroke();
+      }
+
+      // Channel links: outline and label in the channel's color
+      if (entity.channel) {
+        ctx.strokeStyle = getChannelColor(entity.channel);
+        ctx.lineWidth = 2;
+        ctx.setLineDash(entity.invert ? [4, 3] : []);
+        ctx.strokeRect(entity.pos.x, entity.pos.y, entity.size.x, entity.size.y);
+        ctx.setLineDash([]);
+        ctx.fillStyle = getChannelColor(entity.channel);
+        ctx.font = "bold 11px 'Segoe UI', sans-serif";
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'bottom';
+        ctx.fillText(entity.channel, entity.pos.x, entity.pos.y - 2);
+      }
+
+      // Movement previews
+      if (entity.path) {
+        const nodes = [entity.pos, ...entity.path.points.map(p => ({ x: entity.pos.x + p.x, y: entity.pos.y + p.y }))];
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = TYPE_COLORS[type] ?? '#fff';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        nodes.forEach((node, i) => {
+          const x = node.x + entity.size.x / 2;
+          const y = node.y + entity.size.y / 2;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        if (entity.path.mode === 'loop') ctx.closePath();
+        ctx.stroke();
+        nodes.slice(1).forEach(node => ctx.strokeRect(node.x, node.y, entity.size.x, entity.size.y));
+        ctx.setLineDash([]);
+      } else if (entity.orbit) {
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = TYPE_COLORS[type] ?? '#fff';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(entity.pos.x + entity.size.x / 2, entity.pos.y + entity.size.y / 2, Math.abs(entity.orbit.radius), 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      } else if (entity.patrolRange && (entity.patrolRange.x !== 0 || entity.patrolRange.y !== 0)) {
+        ctx.setLineDash([6, 4]);
+        ctx.strokeStyle = TYPE_COLORS[type] ?? '#fff';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(entity.pos.x - entity.patrolRange.x, entity.pos.y - entity.patrolRange.y, entity.size.x, entity.size.y);
+        ctx.strokeRect(entity.pos.x + entity.patrolRange.x, entity.pos.y + entity.patrolRange.y, entity.size.x, entity.size.y);
+        ctx.setLineDash([]);
+      }
+    });
+
+    // Spawn point
+    ctx.fillStyle = COLORS.player;
+    ctx.globalAlpha = 0.8;
+    ctx.fillRect(level.spawnPos.x, level.spawnPos.y, PLAYER_SIZE, PLAYER_SIZE);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = '#fff';
+    ctx.font = `bold 10px 'Segoe UI', sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('SPAWN', level.spawnPos.x + PLAYER_SIZE / 2, level.spawnPos.y + PLAYER_SIZE / 2);
+
+    // Selection
+    if (selected) {
+      const isText = selected.type === 'text';
+      const w = isText ? TILE_SIZE * 4 : selected.size.x;
+      const h = isText ? TILE_SIZE : selected.size.y;
+      const x = isText ? selected.pos.x - w / 2 : selected.pos.x;
+      ctx.strokeStyle = '#fbbf24';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, selected.pos.y, w, h);
+      if (!isText) {
+        ctx.fillStyle = '#fbbf24';
+        ctx.fillRect(x + w - HANDLE_SIZE, selected.pos.y + h - HANDLE_SIZE, HANDLE_SIZE, HANDLE_SIZE);
+      }
+    }
+
+    // Placement preview
+    if (drag?.mode === 'place') {
+      const minX = Math.min(drag.start.x, drag.current.x);
+      const minY = Math.min(drag.start.y, drag.current.y);
+      ctx.strokeStyle = TYPE_COLORS[drag.type];
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        minX * TILE_SIZE,
+        minY * TILE_SIZE,
+        (Math.abs(drag.current.x - drag.start.x) + 1) * TILE_SIZE,
+        (Math.abs(drag.current.y - drag.start.y) + 1) * TILE_SIZE
+      );
+    }
+
+    ctx.restore();
+  });
+
+  const renderSelectField = <T extends string>(label: string, value: T, options: T[], onValue: (value: T) => void) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+      {label}
+      <select
+        value={value}
+        onChange={e => onValue(e.target.value as T)}
+        className="w-24 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-200"
+      >
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    </label>
+  );
+
+  const renderSurfaceFields = (entity: Entity) => {
+    const material: SurfaceMaterial | 'none' = entity.material ?? 'none';
+    return (
+      <>
+        {renderSelectField<SurfaceMaterial | 'none'>('Surface', material, ['none', 'ice', 'conveyor', 'mud'], v =>
+          updateEntity(entity.id, {
+            material: v === 'none' ? undefined : v,
+            conveyorSpeed: v === 'conveyor' ? SURFACE_CONFIG.conveyor.speed : undefined,
+          })
+        )}
+        {material === 'conveyor' && renderNumberField(
+          'Belt (tiles/tick)',
+          (entity.conveyorSpeed ?? SURFACE_CONFIG.conveyor.speed) / TILE_SIZE,
+          v => updateEntity(entity.id, { conveyorSpeed: v * TILE_SIZE }),
+          0.01
+        )}
+      </>
+    );
+  };
+
+  const renderTimingFields = (entity: Entity) => {
+    const timing: TimingKind = entity.blinkPeriod !== undefined ? 'blink' : entity.crumbleDelay !== undefined ? 'crumble' : 'none';
+    return (
+      <>
+        {renderSelectField<TimingKind>('Timing', timing, ['none', 'crumble', 'blink'], v =>
+          updateEntity(entity.id, {
+            crumbleDelay: v === 'crumble' ? DEFAULT_CRUMBLE_DELAY : undefined,
+            respawnDelay: v === 'crumble' ? DEFAULT_RESPAWN_DELAY : undefined,
+            blinkPeriod: v === 'blink' ? DEFAULT_BLINK_PERIOD : undefined,
+            blinkOffset: undefined,
+          })
+        )}
+        {timing === 'crumble' && (
+          <>
+            {renderNumberField('Holds (ticks)', entity.crumbleDelay ?? DEFAULT_CRUMBLE_DELAY, v => updateEntity(entity.id, { crumbleDelay: Math.max(0, Math.round(v)) }), 10)}
+            {renderNumberField('Respawn (ticks)', entity.respawnDelay ?? DEFAULT_RESPAWN_DELAY, v => updateEntity(entity.id, { respawnDelay: Math.max(0, Math.round(v)) }), 30)}
+          </>
+        )}
+        {timing === 'blink' && (
+          <>
+            {renderNumberField('Period (ticks)', entity.blinkPeriod ?? DEFAULT_BLINK_PERIOD, v => updateEntity(entity.id, { blinkPeriod: Math.max(2, Math.round(v)) }), 10)}
+            {renderNumberField('Offset (ticks)', entity.blinkOffset ?? 0, v => updateEntity(entity.id, { blinkOffset: Math.round(v) || undefined }), 10)}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderTurretFields = (entity: Entity) => (
+    <>
+      {renderNumberField('Interval (ticks)', entity.fireInterval ?? TURRET_FIRE_INTERVAL, v => updateEntity(entity.id, { fireInterval: Math.max(1, Math.round(v)) }), 10)}
+      {renderNumberField('Angle (deg)', entity.fireAngle ?? 0, v => updateEntity(entity.id, { fireAngle: v }), 45)}
+      {renderNumberField(
+        'Shot (tiles/tick)',
+        (entity.projectileSpeed ?? PROJECTILE_SPEED) / TILE_SIZE,
+        v => updateEntity(entity.id, { projectileSpeed: Math.max(0.01, v) * TILE_SIZE }),
+        0.05
+      )}
+      {renderNumberField('Offset (ticks)', entity.fireOffset ?? 0, v => updateEntity(entity.id, { fireOffset: Math.round(v) || undefined }), 10)}
+    </>
+  );
+
+  const renderLinkFields = (entity: Entity) => (
+    <>
+      <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 pt-2">{isTrigger(entity) ? 'Trigger' : 'Target'}</h4>
+      <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+        Channel
+        <input
+          value={entity.channel ?? ''}
+          placeholder="none"
+          onChange={e => updateEntity(entity.id, { channel: e.target.value.trim() || undefined })}
+          className="w-24 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+        />
+      </label>
+      {!isTrigger(entity) && entity.channel && (
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+          {entity.type === 'door' ? 'Open unless powered' : 'Present unless powered'}
+          <input
+            type="checkbox"
+            checked={!!entity.invert}
+            onChange={e => updateEntity(entity.id, { invert: e.target.checked || undefined })}
+          />
+        </label>
+      )}
+      {entity.type === 'button' && renderNumberField(
+        'Duration (ticks)',
+        entity.duration ?? DEFAULT_BUTTON_DURATION,
+        v => updateEntity(entity.id, { duration: Math.max(1, Math.round(v)) }),
+        30
+      )}
+    </>
+  );
+
+  const renderMotionFields = (entity: Entity) => {
+    const { path, orbit } = entity;
+    const kind = getMotionKind(entity);
+    const updatePath = (changes: Partial<NonNullable<Entity['path']>>) => path && updateEntity(entity.id, { path: { ...path, ...changes } });
+    const updatePoint = (index: number, point: Vector) =>
+      path && updatePath({ points: path.points.map((p, i) => (i === index ? point : p)) });
+
+    return (
+      <>
+        <h4 className="text-xs font-bold uppercase tracking-wider text-slate-500 pt-2">Motion</h4>
+        {renderSelectField<MotionKind>('Type', kind, ['none', 'patrol', 'path', 'orbit'], v => updateEntity(entity.id, MOTION_DEFAULTS[v]))}
+        {kind === 'patrol' && (
+          <>
+            {renderNumberField('Range X', (entity.patrolRange?.x ?? 0) / TILE_SIZE, v => updateEntity(entity.id, { patrolRange: { x: v * TILE_SIZE, y: entity.patrolRange?.y ?? 0 } }))}
+            {renderNumberField('Range Y', (entity.patrolRange?.y ?? 0) / TILE_SIZE, v => updateEntity(entity.id, { patrolRange: { x: entity.patrolRange?.x ?? 0, y: v * TILE_SIZE } }))}
+            {renderNumberField('Speed', entity.moveSpeed ?? DEFAULT_PATROL_SPEED, v => updateEntity(entity.id, { moveSpeed: Math.max(0, v) }), 0.005)}
+          </>
+        )}
+        {path && (
+          <>
+            {renderSelectField<PathEasing>('Easing', path.easing, ['linear', 'eased', 'constant'], v => updatePath({ easing: v }))}
+            {renderSelectField<PathMode>('Mode', path.mode, ['loop', 'pingpong', 'once'], v => updatePath({ mode: v }))}
+            {renderNumberField('Speed (tiles/tick)', path.speed / TILE_SIZE, v => updatePath({ speed: Math.max(0.005, v) * TILE_SIZE }), 0.01)}
+            {renderNumberField('Pause (ticks)', path.pause, v => updatePath({ pause: Math.max(0, Math.round(v)) }), 10)}
+            {path.points.map((point, i) => (
+              <div key={i} className="flex items-center gap-1 text-xs text-slate-400">
+                <span className="w-10">Node {i + 1}</span>
+                {renderNumberField('X', point.x / TILE_SIZE, v => updatePoint(i, { ...point, x: v * TILE_SIZE }))}
+                {renderNumberField('Y', point.y / TILE_SIZE, v => updatePoint(i, { ...point, y: v * TILE_SIZE }))}
+                <button
+                  onClick={() => updatePath({ points: path.points.filter((_, j) => j !== i) })}
+                  disabled={path.points.length === 1}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => {
+                const last = path.points[path.points.length - 1];
+                updatePath({ points: [...path.points, { x: last.x + 2 * TILE_SIZE, y: last.y }] });
+              }}
+              className="w-full px-2 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-bold text-slate-300"
+            >
+              Add Node
+            </button>
+          </>
+        )}
+        {orbit && (
+          <>
+            {renderNumberField('Radius', orbit.radius / TILE_SIZE, v => updateEntity(entity.id, { orbit: { ...orbit, radius: Math.max(0, v) * TILE_SIZE } }))}
+            {renderNumberField('Speed (rad/tick)', orbit.speed, v => updateEntity(entity.id, { orbit: { ...orbit, speed: v } }), 0.005)}
+            {renderNumberField('Phase (rad)', orbit.phase, v => updateEntity(entity.id, { orbit: { ...orbit, phase: v } }), 0.1)}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderNumberField = (label: string, value: number, onValue: (value: number) => void, step: number = 0.5) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={e => {
+          const parsed = parseFloat(e.target.value);
+          if (!isNaN(parsed)) onValue(parsed);
+        }}
+        className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200"
+      />
+    </label>
+  );
+
+  const renderToolButton = (value: EditorTool, label: React.ReactNode, color?: string) => (
+    <button
+      key={value}
+      onClick={() => setTool(value)}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-bold transition-colors ${tool === value ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+    >
+      {color && <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 z-50 flex bg-slate-950 text-white">
+      {/* Sidebar */}
+      <div className="w-64 flex flex-col gap-4 p-4 bg-slate-900 border-r border-slate-800 overflow-y-auto custom-scrollbar">
+        <div className="flex items-center justify-between">
+          <button onClick={onExit} className="flex items-center gap-1 text-slate-400 hover:text-white text-sm font-bold">
+            <ArrowLeft className="w-4 h-4" /> Menu
+          </button>
+          <button
+            onClick={() => onPlayTest(level)}
+            className="flex items-center gap-1 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-sm font-bold"
+          >
+            <Play className="w-4 h-4 fill-current" /> Play Test
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onOpenFile} className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold text-slate-300">
+            <FolderOpen className="w-4 h-4" /> Open
+          </button>
+          <button onClick={() => onSaveFile(level)} className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-slate-800 hover:bg-slate-700 rounded-lg text-xs font-bold text-slate-300">
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-xs whitespace-pre-line">{error}</p>}
+        {warnings.length > 0 && (
+          <ul className="text-amber-400 text-xs space-y-1 max-h-32 overflow-y-auto">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <input
+            value={level.name}
+            onChange={e => onChange({ ...level, name: e.target.value })}
+            className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm font-bold"
+          />
+          {renderNumberField('Width (tiles)', level.width / TILE_SIZE, v => onChange({ ...level, width: Math.max(MIN_WIDTH_TILES, Math.round(v)) * TILE_SIZE }), 1)}
+          {renderNumberField('Height (tiles)', level.height / TILE_SIZE, v => onChange({ ...level, height: Math.max(MIN_HEIGHT_TILES, Math.round(v)) * TILE_SIZE }), 1)}
+        </div>
+
+        <div>
+          <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Tools</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {renderToolButton('select', <><MousePointer2 className="w-4 h-4" /> Select</>)}
+            {renderToolButton('spawn', <><User className="w-4 h-4" /> Spawn</>)}
+            {PLACEABLE_TYPES.map(type => renderToolButton(type, type, TYPE_COLORS[type]))}
+          </div>
+          <p className="text-[11px] text-slate-500 mt-2">
+            Click or drag to place. Right-drag or scroll to pan. Delete removes the selection. Drop a level file here to open it.
+          </p>
+        </div>
+
+        {/* Inspector */}
+        {selected && (
+          <div className="space-y-2 border-t border-slate-800 pt-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold capitalize">{selected.type}</h3>
+              <button onClick={() => deleteEntity(selected.id)} className="text-red-400 hover:text-red-300">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {renderNumberField('X', selected.pos.x / TILE_SIZE, v => updateEntity(selected.id, { pos: { ...selected.pos, x: v * TILE_SIZE } }))}
+            {renderNumberField('Y', selected.pos.y / TILE_SIZE, v => updateEntity(selected.id, { pos: { ...selected.pos, y: v * TILE_SIZE } }))}
+            {selected.type !== 'text' && (
+              <>
+                {renderNumberField('Width', selected.size.x / TILE_SIZE, v => updateEntity(selected.id, { size: { ...selected.size, x: Math.max(0.5, v) * TILE_SIZE } }))}
+                {renderNumberField('Height', selected.size.y / TILE_SIZE, v => updateEntity(selected.id, { size: { ...selected.size, y: Math.max(0.5, v) * TILE_SIZE } }))}
+              </>
+            )}
+            {selected.type === 'text' && (
+              <>
+                <input
+                  value={selected.text || ''}
+                  onChange={e => updateEntity(selected.id, { text: e.target.value })}
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm"
+                />
+                {renderNumberField('Font size', selected.fontSize || 24, v => updateEntity(selected.id, { fontSize: Math.max(8, v) }), 1)}
+              </>
+            )}
+            {selected.type === 'enemy' && (
+              <>
+                {renderSelectField<EnemyBehavior>('Behavior', selected.behavior ?? 'walker', ['walker', 'jumper', 'chaser'], v => updateEntity(selected.id, { behavior: v }))}
+                {renderSelectField<'left' | 'right'>('Facing', selected.facing === 1 ? 'right' : 'left', ['left', 'right'], v => updateEntity(selected.id, { facing: v === 'right' ? 1 : undefined }))}
+              </>
+            )}
+            {selected.type === 'turret' && renderTurretFields(selected)}
+            {(selected.type === 'spike' || selected.type === 'lava' || selected.type === 'enemy' || selected.type === 'turret') && (
+              renderNumberField(
+                selected.type === 'spike' || selected.type === 'lava' ? 'Damage (0 = kill)' : 'Damage (0 = default)',
+                selected.damage ?? 0,
+                v => updateEntity(selected.id, { damage: v > 0 ? v : undefined }),
+                5
+              )
+            )}
+            {selected.type === 'platform' && renderSurfaceFields(selected)}
+            {(selected.type === 'platform' || selected.type === 'oneway') && renderTimingFields(selected)}
+            {(isTrigger(selected) || TARGET_TYPES.includes(selected.type as PlaceableType)) && renderLinkFields(selected)}
+            {MOVABLE_TYPES.includes(selected.type as PlaceableType) && renderMotionFields(selected)}
+          </div>
+        )}
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 relative overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          className="block"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          onWheel={handleWheel}
+          onContextMenu={e => e.preventDefault()}
+        />
+        <div className="absolute bottom-2 right-3 text-xs text-slate-500 pointer-events-none">
+          {Math.round(level.width / TILE_SIZE)} x {Math.round(level.height / TILE_SIZE)} tiles
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { Split, formatTicks, formatDelta, totalTicks } from '../utils/speedrun';
+
+interface SpeedrunTimerProps {
+  levelTicksRef: React.MutableRefObject<number>; // Ticks spent in the current level, advanced by GameCanvas
+  splits: Split[];
+  pbTicks: number | null; // Personal best for the current level
+}
+
+// HUD timer. Reads the tick counter every frame instead of having GameCanvas
+// push updates, so only this component re-renders while the clock runs.
+export const SpeedrunTimer: React.FC<SpeedrunTimerProps> = ({ levelTicksRef, splits, pbTicks }) => {
+  const [levelTicks, setLevelTicks] = useState(levelTicksRef.current);
+
+  useEffect(() => {
+    let frameId: number;
+    const poll = () => {
+      setLevelTicks(levelTicksRef.current);
+      frameId = requestAnimationFrame(poll);
+    };
+    frameId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frameId);
+  }, [levelTicksRef]);
+
+  const isBehind = pbTicks !== null && levelTicks > pbTicks;
+  const lastSplit = splits[splits.length - 1];
+
+  return (
+    <div className="bg-slate-800/80 backdrop-blur border border-slate-700 rounded-lg p-3 flex flex-col justify-center shadow-lg min-w-[9rem]">
+      <div className="flex items-center gap-2">
+        <Timer className="w-5 h-5 text-sky-400" />
+        <span className="text-xl font-bold font-mono">{formatTicks(totalTicks(splits) + levelTicks)}</span>
+      </div>
+      <div className={`text-xs font-mono font-bold ${isBehind ? 'text-red-400' : 'text-slate-400'}`}>
+        Lvl {formatTicks(levelTicks)}
+        {pbTicks !== null && <span className="text-slate-500"> / PB {formatTicks(pbTicks)}</span>}
+      </div>
+      {lastSplit && lastSplit.pbTicks !== null && (
+        <div className={`text-xs font-mono font-bold ${lastSplit.ticks <= lastSplit.pbTicks ? 'text-emerald-400' : 'text-red-400'}`}>
+          Last split {formatDelta(lastSplit.ticks, lastSplit.pbTicks)}
+        </div>
+      )}
+    </div>
+  );
+};
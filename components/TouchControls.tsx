@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronsRight, ArrowUp, Pause, RotateCw } from 'lucide-react';
+import { EMPTY_GAMEPAD, GamepadState } from '../utils/gamepad';
+
+type TouchButton = 'left' | 'right' | 'crouch' | 'run' | 'jump';
+
+interface TouchControlsProps {
+  inputRef: React.MutableRefObject<GamepadState>; // Written here, read by GameCanvas like a controller
+  onPause: () => void;
+}
+
+// On-screen d-pad and action buttons. Every touch event recomputes the held
+// buttons from all fingers on the screen, so several buttons can be held at
+// once and sliding a finger from one button to the next works.
+export const TouchControls: React.FC<TouchControlsProps> = ({ inputRef, onPause }) => {
+  const [held, setHeld] = useState<Set<TouchButton>>(new Set());
+
+  // Release everything when the controls go away mid-press
+  useEffect(() => () => {
+    inputRef.current = EMPTY_GAMEPAD;
+  }, [inputRef]);
+
+  const handleTouches = (e: React.TouchEvent) => {
+    const buttons = new Set<TouchButton>();
+    Array.from(e.touches as TouchList).forEach(touch => {
+      const element = document.elementFromPoint(touch.clientX, touch.clientY);
+      const button = element?.closest<HTMLElement>('[data-touch-button]')?.dataset.touchButton;
+      if (button) buttons.add(button as TouchButton);
+    });
+
+    inputRef.current = {
+      ...EMPTY_GAMEPAD,
+      left: buttons.has('left'),
+      right: buttons.has('right'),
+      down: buttons.has('crouch'),
+      crouch: buttons.has('crouch'),
+      run: buttons.has('run'),
+      jump: buttons.has('jump'),
+    };
+    setHeld(buttons);
+  };
+
+  const touchHandlers = {
+    onTouchStart: handleTouches,
+    onTouchMove: handleTouches,
+    onTouchEnd: handleTouches,
+    onTouchCancel: handleTouches,
+  };
+
+  const renderButton = (button: TouchButton, icon: React.ReactNode, size: string) => (
+    <div
+      data-touch-button={button}
+      className={`${size} rounded-full flex items-center justify-center border-2 backdrop-blur transition-colors ${held.has(button) ? 'bg-white/40 border-white' : 'bg-slate-800/50 border-slate-500/60'}`}
+    >
+      {icon}
+    </div>
+  );
+
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none select-none">
+      <div {...touchHandlers} className="absolute bottom-6 left-6 flex flex-col items-center gap-2 pointer-events-auto" style={{ touchAction: 'none' }}>
+        <div className="flex gap-3">
+          {renderButton('left', <ChevronLeft className="w-10 h-10" />, 'w-20 h-20')}
+          {renderButton('right', <ChevronRight className="w-10 h-10" />, 'w-20 h-20')}
+        </div>
+        {renderButton('crouch', <ChevronDown className="w-8 h-8" />, 'w-16 h-16')}
+      </div>
+
+      <div {...touchHandlers} className="absolute bottom-6 right-6 flex items-end gap-3 pointer-events-auto" style={{ touchAction: 'none' }}>
+        {renderButton('run', <ChevronsRight className="w-8 h-8" />, 'w-16 h-16')}
+        {renderButton('jump', <ArrowUp className="w-12 h-12" />, 'w-24 h-24')}
+      </div>
+
+      <button
+        onClick={onPause}
+        className="absolute bottom-6 left-1/2 -translate-x-1/2 p-3 rounded-full bg-slate-800/50 border-2 border-slate-500/60 pointer-events-auto"
+      >
+        <Pause className="w-6 h-6" />
+      </button>
+    </div>
+  );
+};
+
+// Shown over the game on touch devices held upright
+export const RotateDevicePrompt: React.FC = () => (
+  <div className="absolute inset-0 z-[60] flex flex-col items-center justify-center gap-4 bg-slate-950/95 text-center p-8">
+    <RotateCw className="w-16 h-16 text-sky-400 animate-spin [animation-duration:3s]" />
+    <h2 className="text-2xl font-bold">Rotate your device</h2>
+    <p className="text-slate-400">Cube Parkour plays in landscape.</p>
+  </div>
+);
@@ -1,16 +1,69 @@
 
 
 
-
+// Simulation timing. All per-tick physics values below are tuned for this rate.
+export const TICK_RATE = 60; // Ticks per second
+export const TICK_DURATION = 1000 / TICK_RATE; // ms
+export const MAX_TICKS_PER_FRAME = 5; // Catch-up limit after a stall
 
 export const GRAVITY = 0.32;
-export const FRICTION = 0.8;
+export const FRICTION = 0.2; // Share of the gap to the target horizontal speed closed each tick
 export const MOVE_SPEED = 2.2;
 export const RUN_SPEED = 4.0;
 export const CROUCH_SPEED = 1.0;
 export const JUMP_FORCE = -9.2;
 export const BOUNCE_FORCE = -15.0;
 export const MAX_FALL_SPEED = 8.0;
+export const DEFAULT_PATROL_SPEED = 0.05; // Patrol phase advance per tick when an entity sets no moveSpeed
+export const MAX_SUBSTEP = 8; // Longest distance moved before checking collisions; below CROUCH_HEIGHT so nothing can be skipped
+
+// Jump feel
+export const COYOTE_TICKS = 6; // Ticks after leaving a ledge during which the ground jump still works
+export const JUMP_BUFFER_TICKS = 6; // Ticks an early jump press is remembered until it can be used
+export const JUMP_CUT_MULTIPLIER = 0.45; // Upward speed kept when jump is released early
+export const DROP_THROUGH_TICKS = 10; // Ticks one-way platforms are ignored after crouching on one
+
+// Wall slide & wall jump
+export const WALL_SLIDE_SPEED = 2.0; // Max fall speed while holding toward a wall
+export const WALL_JUMP_FORCE = -8.5; // Vertical launch, scaled like JUMP_FORCE
+export const WALL_JUMP_PUSH = 5.0; // Horizontal launch away from the wall
+export const WALL_JUMP_LOCK_TICKS = 10; // Ticks horizontal input is ignored after a wall jump
+
+// Surface materials. Friction replaces FRICTION while standing on the surface.
+export const SURFACE_CONFIG = {
+  ice: { friction: 0.025 }, // Barely grips: momentum carries over, turning is slow
+  conveyor: { speed: 2.0 }, // Default belt speed in px per tick, positive moves right
+  mud: { friction: 0.35, speedScale: 0.45, jumpScale: 0.7 }, // Slow walking, stops quickly, weak jumps
+};
+
+// Triggers & targets
+export const DEFAULT_BUTTON_DURATION = 300; // Ticks a timed button stays on (5 s)
+
+// Enemies
+export const ENEMY_WALK_SPEED = 1.0;
+export const ENEMY_CHASE_SPEED = 1.8;
+export const ENEMY_JUMP_FORCE = -7.0;
+export const ENEMY_JUMP_INTERVAL = 90; // Ticks between a jumper's hops
+export const ENEMY_DETECT_RADIUS = 240; // Distance at which a chaser notices the player
+export const ENEMY_DAMAGE = 25; // Contact damage unless the enemy sets its own
+export const STOMP_TOLERANCE = 6; // How far below an enemy's top the player's feet may start and still stomp
+
+// Timed platforms
+export const DEFAULT_CRUMBLE_DELAY = 30; // Ticks a crumbling platform holds once stood on
+export const DEFAULT_RESPAWN_DELAY = 180; // Ticks until a crumbled platform comes back
+export const DEFAULT_BLINK_PERIOD = 120; // Ticks per on/off cycle
+export const BLINK_WARNING_TICKS = 30; // Blinking platforms flicker this long before switching off
+
+// Turrets
+export const TURRET_FIRE_INTERVAL = 120; // Ticks between shots unless the turret sets its own
+export const PROJECTILE_SPEED = 4; // Pixels per tick
+export const PROJECTILE_SIZE = 10;
+export const PROJECTILE_DAMAGE = 20;
+export const MAX_PROJECTILES = 64; // Pool size; turrets hold fire while every slot is in flight
+
+// Gamepad
+export const GAMEPAD_DEADZONE = 0.2; // Stick magnitude below which input is ignored
+export const GAMEPAD_AXIS_THRESHOLD = 0.5; // Stick deflection that counts as a direction
 
 // Player dimensions
 export const PLAYER_SIZE = 32;
@@ -20,6 +73,7 @@ export const CROUCH_HEIGHT = 16;
 export const TILE_SIZE = 40;
 export const MAX_JUMPS = 2;
 export const DEFAULT_MAX_HP = 100;
+export const CUSTOM_LEVEL_ID = -1; // Levels made in the editor or loaded from a file
 
 // Modifiers Configuration
 export const MODIFIER_CONFIG = {
@@ -83,8 +137,29 @@ export const COLORS = {
   checkpointActive: '#10b981', // emerald-500
   background: '#0f172a', // slate-900
   bouncy: '#d946ef', // fuchsia-500
+  ice: '#7dd3fc', // sky-300
+  iceLight: '#e0f2fe', // sky-100 (shine)
+  conveyor: '#3f3f46', // zinc-700
+  conveyorArrow: '#facc15', // yellow-400
+  mud: '#78350f', // amber-900
+  mudLight: '#92400e', // amber-800 (blobs)
+  trigger: '#cbd5e1', // slate-300 (trigger bodies)
+  crumble: '#d97706', // amber-600 (cracks)
+  blink: '#22d3ee', // cyan-400
+  walker: '#e11d48', // rose-600
+  jumper: '#16a34a', // green-600
+  chaser: '#9333ea', // purple-600
+  turret: '#52525b', // zinc-600
+  turretBarrel: '#27272a', // zinc-800
+  projectile: '#fb923c', // orange-400
+  oneway: '#78716c', // stone-500
+  onewayLight: '#a8a29e', // stone-400 (top edge)
+  ghost: '#a5f3fc', // cyan-200
 };
 
+// Doors, triggers and targets are tinted by channel so linked entities match
+export const CHANNEL_COLORS = ['#f43f5e', '#22d3ee', '#a3e635', '#f59e0b', '#c084fc', '#fb923c'];
+
 export const PARTICLE_COLORS = {
   dust: ['#94a3b8', '#64748b', '#cbd5e1'], // Grayish for ground
   fire: ['#f97316', '#ef4444', '#fbbf24', '#7c2d12'], // Orange/Red/Yellow for lava
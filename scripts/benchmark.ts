@@ -0,0 +1,77 @@
+
+import { Entity, GameModifiers, LevelData } from '../types';
+import { TILE_SIZE } from '../constants';
+import { EMPTY_INPUT, createSimState, simulateStep } from '../utils/simulation';
+import { queryGrid } from '../utils/spatialGrid';
+
+// Frame cost as the level grows. Run with `npm run bench`. Each level is a
+// long floor with scattered blocks and coins plus a fixed number of moving
+// platforms (those are stepped every tick wherever they are). The player runs
+// and jumps along it while we time simulateStep plus the viewport query
+// GameCanvas does before drawing. Both should stay flat as entities are added.
+
+const ENTITY_COUNTS = [100, 1000, 5000, 20000];
+const TICKS = 2000;
+const MOVING_COUNT = 50; // Moving platforms per level, the rest is static
+const VIEW = { x: 1280, y: 720 };
+
+const MODIFIERS: GameModifiers = { energized: false, lowGravity: false, highGravity: false, oldSchool: false, hardcore: false, tanky: false };
+
+// Deterministic, so runs are comparable
+let seed = 1;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const createBenchLevel = (count: number): LevelData => {
+  const width = Math.max(4000, count * 20);
+  const height = 800;
+  const entities: Entity[] = [
+    { id: 'floor', type: 'platform', pos: { x: 0, y: 600 }, size: { x: width, y: 40 }, active: true },
+  ];
+
+  for (let i = 1; i < count; i++) {
+    const x = Math.floor(random() * (width / TILE_SIZE)) * TILE_SIZE;
+    const y = Math.floor(random() * 12) * TILE_SIZE;
+    const roll = random();
+    const entity: Entity = roll < 0.6
+      ? { id: `block-${i}`, type: 'platform', pos: { x, y }, size: { x: TILE_SIZE * 2, y: TILE_SIZE }, active: true }
+      : { id: `coin-${i}`, type: 'coin', pos: { x, y }, size: { x: 20, y: 20 }, active: true };
+    if (i <= MOVING_COUNT) entity.patrolRange = { x: TILE_SIZE * 3, y: 0 };
+    entities.push(entity);
+  }
+
+  return { id: 0, name: `Bench ${count}`, width, height, spawnPos: { x: 40, y: 500 }, entities };
+};
+
+const run = (count: number) => {
+  seed = 1;
+  const level = createBenchLevel(count);
+  const state = createSimState(level, MODIFIERS, 3);
+  let simTime = 0;
+  let queryTime = 0;
+  let drawn = 0;
+
+  for (let t = 0; t < TICKS; t++) {
+    const input = { ...EMPTY_INPUT, right: true, run: t % 200 < 150, jump: t % 45 === 0, jumpHeld: t % 45 < 20 };
+
+    let start = performance.now();
+    simulateStep(state, input, level, MODIFIERS);
+    simTime += performance.now() - start;
+
+    start = performance.now();
+    const camera = { x: state.player.pos.x - VIEW.x / 2, y: state.player.pos.y - VIEW.y / 2 };
+    drawn += queryGrid(state.grid, { pos: camera, size: VIEW }).length;
+    queryTime += performance.now() - start;
+  }
+
+  console.log(
+    `${String(count).padStart(6)} entities: ` +
+    `sim ${(simTime / TICKS * 1000).toFixed(1).padStart(6)}µs/tick, ` +
+    `cull ${(queryTime / TICKS * 1000).toFixed(1).padStart(6)}µs/frame, ` +
+    `~${Math.round(drawn / TICKS)} drawn`
+  );
+};
+
+ENTITY_COUNTS.forEach(run);
@@ -0,0 +1,144 @@
+import { Entity, EntityType, GameModifiers, LevelData } from '../types';
+import { BOUNCE_FORCE, CROUCH_HEIGHT, MODIFIER_CONFIG, PLAYER_SIZE, TILE_SIZE } from '../constants';
+import { EMPTY_INPUT, SimInput, checkCollision, createSimState, simulateStep } from '../utils/simulation';
+
+// Regression check for swept player movement. Run with `npm run test:tunneling`.
+// The player is fired at 1-8px thick platforms, bouncy pads and one-way
+// platforms, standing still, patrolling or following a path, at the fastest
+// speed the game produces (a bounce with the energized modifier), standing and
+// crouched, from every start distance up to one tick of movement. After the
+// step it must still be on the near side. Falls are capped at maxFallSpeed
+// inside the step, so downward cases move less.
+
+const MODIFIERS: GameModifiers = { energized: true, lowGravity: false, highGravity: false, oldSchool: false, hardcore: false, tanky: false };
+const MAX_SPEED = Math.abs(BOUNCE_FORCE) * MODIFIER_CONFIG.energized.speedScale;
+const THICKNESSES = [1, 2, 3, 4, 5, 6, 7, 8];
+const BLOCK = { x: 400, y: 400 };
+const BLOCK_LENGTH = TILE_SIZE * 3; // Extent along the side the player hits
+
+type Direction = 'right' | 'left' | 'down' | 'up';
+type Motion = 'static' | 'patrol' | 'path';
+
+interface Case {
+  type: EntityType;
+  direction: Direction;
+  motion: Motion;
+}
+
+const DIRECTIONS: Direction[] = ['right', 'left', 'down', 'up'];
+const MOTIONS: Motion[] = ['static', 'patrol', 'path'];
+
+// One-way platforms only block from above
+const CASES: Case[] = [
+  ...(['platform', 'bouncy'] as EntityType[]).flatMap(type =>
+    DIRECTIONS.flatMap(direction => MOTIONS.map(motion => ({ type, direction, motion })))
+  ),
+  ...MOTIONS.map(motion => ({ type: 'oneway' as EntityType, direction: 'down' as Direction, motion })),
+];
+
+// Unit vector of the player's movement
+const getAxis = (direction: Direction) => ({
+  x: direction === 'right' ? 1 : direction === 'left' ? -1 : 0,
+  y: direction === 'down' ? 1 : direction === 'up' ? -1 : 0,
+});
+
+const createTestLevel = ({ type, direction, motion }: Case, thickness: number): LevelData => {
+  const horizontal = direction === 'left' || direction === 'right';
+  const axis = getAxis(direction);
+  const target: Entity = {
+    id: 'target',
+    type,
+    pos: { ...BLOCK },
+    size: horizontal ? { x: thickness, y: BLOCK_LENGTH } : { x: BLOCK_LENGTH, y: thickness },
+    active: true,
+  };
+  // Patrols start moving away from the player, paths towards it
+  if (motion === 'patrol') {
+    target.patrolRange = { x: axis.x * TILE_SIZE, y: axis.y * TILE_SIZE };
+  } else if (motion === 'path') {
+    target.path = {
+      points: [{ x: -axis.x * TILE_SIZE * 2, y: -axis.y * TILE_SIZE * 2 }],
+      easing: 'constant',
+      mode: 'pingpong',
+      speed: 4,
+      pause: 0,
+    };
+  }
+  return { id: 0, name: 'Tunneling', width: 800, height: 800, spawnPos: { x: 40, y: 40 }, entities: [target] };
+};
+
+// Returns a description of the problem, or null if the player stayed on its side
+const run = (testCase: Case, thickness: number, gap: number, crouched: boolean): string | null => {
+  const { direction } = testCase;
+  const level = createTestLevel(testCase, thickness);
+  const state = createSimState(level, MODIFIERS, 3);
+  const target = state.entities[0];
+  const player = state.player;
+  const height = crouched ? CROUCH_HEIGHT : PLAYER_SIZE;
+  const centerX = BLOCK.x + BLOCK_LENGTH / 2 - PLAYER_SIZE / 2;
+  const centerY = BLOCK.y + BLOCK_LENGTH / 2 - height / 2;
+
+  player.isCrouching = crouched;
+  player.size = { x: PLAYER_SIZE, y: height };
+  player.canCutJump = false;
+  if (direction === 'right') {
+    player.pos = { x: BLOCK.x - PLAYER_SIZE - gap, y: centerY };
+    player.vel = { x: MAX_SPEED, y: 0 };
+  } else if (direction === 'left') {
+    player.pos = { x: BLOCK.x + thickness + gap, y: centerY };
+    player.vel = { x: -MAX_SPEED, y: 0 };
+  } else if (direction === 'down') {
+    player.pos = { x: centerX, y: BLOCK.y - height - gap };
+    player.vel = { x: 0, y: MAX_SPEED };
+  } else {
+    player.pos = { x: centerX, y: BLOCK.y + thickness + gap };
+    player.vel = { x: 0, y: -MAX_SPEED };
+  }
+
+  const input: SimInput = {
+    ...EMPTY_INPUT,
+    right: direction === 'right',
+    left: direction === 'left',
+    run: true,
+    crouch: crouched,
+  };
+  simulateStep(state, input, level, MODIFIERS);
+
+  // Compared with where the block is after the step, since moving ones carry on
+  const { pos, size } = player;
+  const passed =
+    direction === 'right' ? pos.x >= target.pos.x + target.size.x :
+    direction === 'left' ? pos.x + size.x <= target.pos.x :
+    direction === 'down' ? pos.y >= target.pos.y + target.size.y :
+    pos.y + size.y <= target.pos.y;
+  if (passed) return `passed through, ended at (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)})`;
+  if (checkCollision(player, target)) return `ended inside the block at (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)})`;
+  return null;
+};
+
+let checks = 0;
+let failures = 0;
+
+CASES.forEach(testCase => {
+  THICKNESSES.forEach(thickness => {
+    [false, true].forEach(crouched => {
+      for (let gap = 0; gap <= Math.ceil(MAX_SPEED); gap++) {
+        checks++;
+        const problem = run(testCase, thickness, gap, crouched);
+        if (problem) {
+          failures++;
+          console.error(
+            `FAIL ${testCase.motion} ${testCase.type} ${thickness}px, moving ${testCase.direction}` +
+            `${crouched ? ' crouched' : ''} from ${gap}px away: ${problem}`
+          );
+        }
+      }
+    });
+  });
+});
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${checks} tunneling checks failed`);
+  process.exit(1);
+}
+console.log(`ok   ${checks} tunneling checks at ${MAX_SPEED.toFixed(1)}px/tick`);
@@ -0,0 +1,32 @@
+
+import { levels } from '../utils/levels';
+import { parseLevelFile, serializeLevel, validateLevel } from '../utils/levelFormat';
+
+// Checks every built-in level the way the editor and file import would. Run
+// with `npm run test:levels`. Each level must pass `validateLevel` as shipped
+// and again after a round trip through the level file format, so built-in
+// levels can always be exported and opened again.
+
+let failures = 0;
+
+levels.forEach(level => {
+  const problems = validateLevel(level).map(error => `validateLevel: ${error}`);
+  try {
+    parseLevelFile(serializeLevel(level), level.id);
+  } catch (e) {
+    problems.push(...(e as Error).message.split('\n').map(error => `re-import: ${error}`));
+  }
+
+  if (problems.length > 0) {
+    failures++;
+    console.error(`FAIL ${level.name}`);
+    problems.forEach(problem => console.error(`  ${problem}`));
+  } else {
+    console.log(`ok   ${level.name}`);
+  }
+});
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${levels.length} levels failed validation`);
+  process.exit(1);
+}
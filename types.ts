@@ -13,7 +13,24 @@ export type EntityType =
   | 'finish' 
   | 'checkpoint'
   | 'text'
-  | 'bouncy';
+  | 'bouncy'
+  | 'oneway' // Platform that can be jumped through from below
+  // Triggers: power their channel while on
+  | 'plate' // Pressure plate, on while the player stands on it
+  | 'lever' // Toggles each time the player touches it
+  | 'key' // Picked up once, then on for good
+  | 'button' // On for `duration` ticks after being touched
+  // Targets
+  | 'door' // Solid until its channel is powered
+  | 'enemy' // Moves on its own according to `behavior`; stomp it from above
+  | 'turret'; // Solid block that fires a projectile every `fireInterval` ticks
+
+export type EnemyBehavior =
+  | 'walker' // Walks back and forth, turning at walls and ledges
+  | 'jumper' // Walks and hops at regular intervals
+  | 'chaser'; // Runs at the player when they come close
+
+export type SurfaceMaterial = 'ice' | 'conveyor' | 'mud';
 
 export interface Entity {
   id: string;
@@ -35,6 +52,58 @@ export interface Entity {
   patrolRange?: Vector; // Distance to move {x, y}
   moveSpeed?: number; // Speed multiplier for movement
   moveOffset?: number; // Time offset (0-Math.PI*2)
+  path?: EntityPath; // Waypoint movement, used instead of patrolRange
+  orbit?: EntityOrbit; // Circular movement, used instead of patrolRange
+  // Surface properties (platforms)
+  material?: SurfaceMaterial; // Changes traction and speed for a player standing on it
+  conveyorSpeed?: number; // Belt speed in px per tick, positive moves right
+  // Timed platforms (platform, oneway): crumbling or blinking, not both
+  crumbleDelay?: number; // Crumbling: ticks it holds once stood on before falling
+  respawnDelay?: number; // Crumbling: ticks until it comes back after falling
+  blinkPeriod?: number; // Blinking: ticks per on/off cycle, solid for the first half
+  blinkOffset?: number; // Blinking: ticks to shift the cycle by
+  fallAt?: number; // Tick at which a crumbling platform that was stood on falls
+  respawnAt?: number; // Tick at which a fallen platform comes back
+  vanished?: boolean; // Crumbled or blinked out: not solid, drawn as an outline
+  // Trigger/target links. Triggers power `channel`; any other entity with a
+  // channel is a target that is only present while the channel is powered
+  // (doors: only while it isn't). `invert` flips that for targets.
+  channel?: string;
+  invert?: boolean;
+  duration?: number; // Ticks a button stays on
+  isOn?: boolean; // Trigger state (lever, key, plate)
+  onUntil?: number; // Tick until which a button stays on
+  wasTouched?: boolean; // Player overlapped the trigger last tick, to detect new touches
+  disabled?: boolean; // Target switched off by its channel: not solid, harmless, drawn faded
+  // Enemy properties
+  behavior?: EnemyBehavior;
+  facing?: number; // -1 left, 1 right
+  onGround?: boolean;
+  nextJumpTick?: number; // Jumpers: earliest tick of the next hop
+  isChasing?: boolean; // Chasers: the player is within range
+  // Turret properties. `damage` is dealt per projectile hit
+  fireInterval?: number; // Ticks between shots
+  fireAngle?: number; // Degrees, 0 fires right, 90 down
+  fireOffset?: number; // Ticks to delay the shots by, to stagger turrets
+  projectileSpeed?: number; // Pixels per tick
+}
+
+export type PathEasing = 'linear' | 'eased' | 'constant';
+export type PathMode = 'loop' | 'pingpong' | 'once';
+
+export interface EntityPath {
+  points: Vector[]; // Nodes after the start position, as offsets from it
+  easing: PathEasing; // linear/eased: equal time per segment, constant: equal speed
+  mode: PathMode;
+  speed: number; // Pixels per tick (averaged over segments unless constant)
+  pause: number; // Ticks to wait at each node
+  offset?: number; // Ticks to advance the path by, to stagger entities sharing it
+}
+
+export interface EntityOrbit {
+  radius: number; // Distance from the placed position
+  speed: number; // Radians per tick, negative for counter-clockwise
+  phase: number; // Starting angle in radians
 }
 
 export interface LevelData {
@@ -61,5 +130,5 @@ export interface GameState {
   coins: number;
   score: number;
   totalDeaths?: number;
-  status: 'menu' | 'playing' | 'gameover' | 'victory' | 'level_transition';
+  status: 'menu' | 'playing' | 'gameover' | 'victory' | 'level_transition' | 'replay' | 'editor' | 'playtest';
 }
\ No newline at end of file
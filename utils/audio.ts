@@ -13,7 +13,7 @@ const initAudio = () => {
   return audioCtx;
 };
 
-export const playSound = (type: 'jump' | 'doubleJump' | 'bounce' | 'coin' | 'hurt' | 'die' | 'win') => {
+export const playSound = (type: 'jump' | 'doubleJump' | 'bounce' | 'coin' | 'hurt' | 'die' | 'win' | 'click' | 'stomp' | 'shoot') => {
   try {
     const ctx = initAudio();
     if (!ctx) return;
@@ -69,6 +69,36 @@ export const playSound = (type: 'jump' | 'doubleJump' | 'bounce' | 'coin' | 'hur
         osc.stop(now + 0.3);
         break;
 
+      case 'click':
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(900, now);
+        osc.frequency.exponentialRampToValueAtTime(400, now + 0.05);
+        gain.gain.setValueAtTime(0.04, now);
+        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.06);
+        osc.start(now);
+        osc.stop(now + 0.06);
+        break;
+
+      case 'stomp':
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(500, now);
+        osc.frequency.exponentialRampToValueAtTime(80, now + 0.15);
+        gain.gain.setValueAtTime(0.12, now);
+        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.15);
+        osc.start(now);
+        osc.stop(now + 0.15);
+        break;
+
+      case 'shoot':
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(700, now);
+        osc.frequency.exponentialRampToValueAtTime(150, now + 0.08);
+        gain.gain.setValueAtTime(0.03, now);
+        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.08);
+        osc.start(now);
+        osc.stop(now + 0.08);
+        break;
+
       case 'hurt':
         osc.type = 'sawtooth';
         osc.frequency.setValueAtTime(150, now);
@@ -0,0 +1,99 @@
+
+// Keyboard action map. Game code asks whether an action is held instead of
+// checking keys directly, so players can rebind controls (e.g. for AZERTY).
+// Keys are KeyboardEvent.code values, i.e. physical key positions.
+
+export type Action = 'left' | 'right' | 'jump' | 'run' | 'crouch' | 'pause';
+
+export type Bindings = Record<Action, string[]>;
+
+export const ACTIONS: Action[] = ['left', 'right', 'jump', 'run', 'crouch', 'pause'];
+
+export const ACTION_LABELS: Record<Action, string> = {
+  left: 'Move Left',
+  right: 'Move Right',
+  jump: 'Jump',
+  run: 'Run',
+  crouch: 'Crouch',
+  pause: 'Pause',
+};
+
+export const MAX_KEYS_PER_ACTION = 3;
+
+export const DEFAULT_BINDINGS: Bindings = {
+  left: ['ArrowLeft', 'KeyA'],
+  right: ['ArrowRight', 'KeyD'],
+  jump: ['Space', 'ArrowUp', 'KeyW'],
+  run: ['ShiftLeft', 'ShiftRight'],
+  crouch: ['ArrowDown', 'KeyS'],
+  pause: ['Escape'],
+};
+
+export const matchesAction = (bindings: Bindings, action: Action, code: string): boolean =>
+  bindings[action].includes(code);
+
+export const isActionDown = (bindings: Bindings, keys: { [code: string]: boolean }, action: Action): boolean =>
+  bindings[action].some(code => keys[code]);
+
+const KEY_NAMES: { [code: string]: string } = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: 'Space',
+  ShiftLeft: 'L Shift',
+  ShiftRight: 'R Shift',
+  ControlLeft: 'L Ctrl',
+  ControlRight: 'R Ctrl',
+  AltLeft: 'L Alt',
+  AltRight: 'R Alt',
+  Escape: 'Esc',
+};
+
+// Readable name for a key code: "KeyA" -> "A", "Digit1" -> "1", "Numpad4" -> "Num 4"
+export const formatKey = (code: string): string => {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+  return code;
+};
+
+// Binds `code` to `action`, replacing the key in `slot` or adding it when the slot is empty
+export const setBinding = (bindings: Bindings, action: Action, slot: number, code: string): Bindings => {
+  const keys = [...bindings[action]];
+  if (slot < keys.length) keys[slot] = code;
+  else keys.push(code);
+  return { ...bindings, [action]: Array.from(new Set(keys)).slice(0, MAX_KEYS_PER_ACTION) };
+};
+
+export const removeBinding = (bindings: Bindings, action: Action, slot: number): Bindings => ({
+  ...bindings,
+  [action]: bindings[action].filter((_, i) => i !== slot),
+});
+
+/**
+ * Keys bound to more than one action and actions without any key, as one
+ * human readable message each. An empty list means the bindings are usable.
+ */
+export const findBindingProblems = (bindings: Bindings): string[] => {
+  const problems: string[] = [];
+  const actionsByKey: { [code: string]: Action[] } = {};
+
+  ACTIONS.forEach(action => {
+    if (bindings[action].length === 0) {
+      problems.push(`${ACTION_LABELS[action]} has no key`);
+    }
+    bindings[action].forEach(code => {
+      actionsByKey[code] = [...(actionsByKey[code] ?? []), action];
+    });
+  });
+
+  Object.entries(actionsByKey).forEach(([code, actions]) => {
+    if (actions.length > 1) {
+      problems.push(`${formatKey(code)} is bound to ${actions.map(action => ACTION_LABELS[action]).join(' and ')}`);
+    }
+  });
+
+  return problems;
+};
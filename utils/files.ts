@@ -0,0 +1,32 @@
+
+// Browser helpers for exporting and importing JSON files
+
+export const downloadJson = (filename: string, json: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Opens the native file picker and resolves with the chosen file's text
+export const pickTextFile = (accept: string): Promise<string | null> => {
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
+};
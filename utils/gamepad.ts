@@ -0,0 +1,104 @@
+
+import { GAMEPAD_DEADZONE, GAMEPAD_AXIS_THRESHOLD } from '../constants';
+
+// Controller input through the Gamepad API. Buttons follow the browser's
+// "standard" mapping (Xbox layout); every connected pad is merged into one state.
+
+export interface GamepadState {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+  jump: boolean;
+  run: boolean;
+  crouch: boolean;
+  start: boolean;
+  confirm: boolean; // Menu: press the focused button
+  back: boolean; // Menu: leave the pause screen
+}
+
+export const EMPTY_GAMEPAD: GamepadState = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  jump: false,
+  run: false,
+  crouch: false,
+  start: false,
+  confirm: false,
+  back: false,
+};
+
+// Standard mapping button indices
+const BUTTON = {
+  a: 0,
+  b: 1,
+  x: 2,
+  lb: 4,
+  rb: 5,
+  lt: 6,
+  rt: 7,
+  start: 9,
+  dpadUp: 12,
+  dpadDown: 13,
+  dpadLeft: 14,
+  dpadRight: 15,
+};
+
+const isDown = (pad: Gamepad, index: number) => !!pad.buttons[index]?.pressed;
+
+const readPad = (pad: Gamepad): GamepadState => {
+  // Radial deadzone on the left stick, so a resting stick never drifts into a direction
+  let x = pad.axes[0] ?? 0;
+  let y = pad.axes[1] ?? 0;
+  if (Math.hypot(x, y) < GAMEPAD_DEADZONE) {
+    x = 0;
+    y = 0;
+  }
+
+  const left = isDown(pad, BUTTON.dpadLeft) || x < -GAMEPAD_AXIS_THRESHOLD;
+  const right = isDown(pad, BUTTON.dpadRight) || x > GAMEPAD_AXIS_THRESHOLD;
+  const up = isDown(pad, BUTTON.dpadUp) || y < -GAMEPAD_AXIS_THRESHOLD;
+  const down = isDown(pad, BUTTON.dpadDown) || y > GAMEPAD_AXIS_THRESHOLD;
+
+  return {
+    left,
+    right,
+    up,
+    down,
+    jump: isDown(pad, BUTTON.a),
+    run: isDown(pad, BUTTON.x) || isDown(pad, BUTTON.rb) || isDown(pad, BUTTON.rt),
+    crouch: down || isDown(pad, BUTTON.b) || isDown(pad, BUTTON.lb) || isDown(pad, BUTTON.lt),
+    start: isDown(pad, BUTTON.start),
+    confirm: isDown(pad, BUTTON.a),
+    back: isDown(pad, BUTTON.b),
+  };
+};
+
+// A button counts as held if it is held on any of the states
+export const mergeGamepadStates = (...states: GamepadState[]): GamepadState => {
+  const merged = { ...EMPTY_GAMEPAD };
+  states.forEach(state => {
+    (Object.keys(merged) as (keyof GamepadState)[]).forEach(key => {
+      merged[key] = merged[key] || state[key];
+    });
+  });
+  return merged;
+};
+
+export const readGamepads = (): GamepadState => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return EMPTY_GAMEPAD;
+
+  const pads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad && pad.connected);
+  return mergeGamepadStates(...pads.map(readPad));
+};
+
+// Buttons that went down between two polls
+export const pressedSince = (current: GamepadState, previous: GamepadState): GamepadState => {
+  const pressed = { ...EMPTY_GAMEPAD };
+  (Object.keys(pressed) as (keyof GamepadState)[]).forEach(key => {
+    pressed[key] = current[key] && !previous[key];
+  });
+  return pressed;
+};
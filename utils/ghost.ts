@@ -0,0 +1,72 @@
+
+import { GameModifiers, Vector } from '../types';
+
+// Ghosts are the player's best run for a level, stored as the player position
+// after every tick. Runs with different modifiers are stored separately.
+
+export interface RunResult {
+  ticks: number;
+  trajectory: number[]; // Flattened [x, y, x, y, ...], one pair per tick
+}
+
+export interface GhostRun extends RunResult {
+  levelId: number;
+  modifiersKey: string;
+}
+
+const STORAGE_PREFIX = 'cube-parkour:ghost';
+
+// Stable key for a modifier set, e.g. "energized+oldSchool" or "none"
+export const getModifiersKey = (modifiers: GameModifiers): string => {
+  const active = (Object.keys(modifiers) as (keyof GameModifiers)[])
+    .filter(key => modifiers[key])
+    .sort();
+  return active.length > 0 ? active.join('+') : 'none';
+};
+
+const storageKey = (levelId: number, modifiersKey: string) => `${STORAGE_PREFIX}:${levelId}:${modifiersKey}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+// A stored ghost that fails these checks is treated as missing and replaced by the next run
+const isGhostRun = (value: unknown): value is GhostRun =>
+  isRecord(value) &&
+  isNumber(value.ticks) &&
+  Array.isArray(value.trajectory) &&
+  value.trajectory.length >= 2 &&
+  value.trajectory.every(isNumber);
+
+export const loadGhost = (levelId: number, modifiers: GameModifiers): GhostRun | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(levelId, getModifiersKey(modifiers)));
+    if (!raw) return null;
+    const ghost: unknown = JSON.parse(raw);
+    return isGhostRun(ghost) ? ghost : null;
+  } catch {
+    return null;
+  }
+};
+
+// Stores the run if it beats the current ghost. Returns true when saved.
+export const saveGhostIfBest = (levelId: number, modifiers: GameModifiers, run: RunResult): boolean => {
+  const existing = loadGhost(levelId, modifiers);
+  if (existing && existing.ticks <= run.ticks) return false;
+
+  const modifiersKey = getModifiersKey(modifiers);
+  const ghost: GhostRun = { levelId, modifiersKey, ticks: run.ticks, trajectory: run.trajectory };
+  try {
+    localStorage.setItem(storageKey(levelId, modifiersKey), JSON.stringify(ghost));
+    return true;
+  } catch {
+    return false; // Storage full or unavailable
+  }
+};
+
+// Position after the given tick (1-based), holding the final position once the ghost finished
+export const ghostPositionAt = (ghost: RunResult, tick: number): Vector => {
+  const frames = ghost.trajectory.length / 2;
+  const index = Math.max(0, Math.min(frames - 1, tick - 1));
+  return { x: ghost.trajectory[index * 2], y: ghost.trajectory[index * 2 + 1] };
+};
@@ -0,0 +1,432 @@
+
+import { Entity, EntityType, EnemyBehavior, LevelData, Vector, PathEasing, PathMode, SurfaceMaterial } from '../types';
+import { TILE_SIZE, PLAYER_SIZE, CUSTOM_LEVEL_ID, DEFAULT_PATROL_SPEED } from '../constants';
+import { checkCollision } from './simulation';
+import { isTrigger } from './triggers';
+
+/**
+ * Cube Parkour level file, version 1. Positions and sizes are in tiles
+ * (TILE_SIZE px) and may be fractional; `spawn` is the player's top-left corner.
+ *
+ * {
+ *   "format": "cube-parkour-level",
+ *   "version": 1,
+ *   "name": "My Level",
+ *   "width": 40,
+ *   "height": 15,
+ *   "spawn": { "x": 1, "y": 10 },
+ *   "entities": [
+ *     { "type": "platform", "x": 0, "y": 13, "w": 40, "h": 2 },
+ *     { "type": "spike", "x": 8, "y": 12, "damage": 25, "patrol": { "x": 2, "y": 0 }, "speed": 0.03, "phase": 0 },
+ *     { "type": "platform", "x": 4, "y": 12, "w": 3, "h": 1, "material": "conveyor", "conveyorSpeed": -0.05 },
+ *     { "type": "oneway", "x": 8, "y": 9, "w": 3, "h": 0.5, "crumbleDelay": 30, "respawnDelay": 180 },
+ *     { "type": "platform", "x": 16, "y": 9, "w": 2, "h": 1, "blinkPeriod": 120, "blinkOffset": 60 },
+ *     { "type": "platform", "x": 12, "y": 10, "w": 3, "h": 1, "path": { "points": [{ "x": 0, "y": -5 }], "easing": "eased", "mode": "pingpong", "speed": 0.05, "pause": 30 } },
+ *     { "type": "lava", "x": 20, "y": 6, "orbit": { "radius": 2, "speed": 0.03, "phase": 0 } },
+ *     { "type": "lever", "x": 10, "y": 12, "w": 0.5, "h": 1, "channel": "gate" },
+ *     { "type": "door", "x": 30, "y": 10, "w": 0.5, "h": 3, "channel": "gate" },
+ *     { "type": "enemy", "x": 16, "y": 12, "behavior": "chaser" },
+ *     { "type": "turret", "x": 24, "y": 8, "fireInterval": 90, "fireAngle": 180, "projectileSpeed": 0.1 },
+ *     { "type": "text", "x": 6, "y": 8, "text": "Hello!", "fontSize": 24 },
+ *     { "type": "finish", "x": 36, "y": 10, "w": 2, "h": 3 }
+ *   ]
+ * }
+ *
+ * Entity fields: `type` (required), `x`, `y` (required), `w`, `h` (default 1,
+ * ignored for text), `id` (optional, generated from type and order), `damage`
+ * (spike/lava, omitted = instant kill), `text`/`fontSize` (text), `patrol`,
+ * `speed` and `phase` (patrol range in tiles, speed per tick, default 0.05,
+ * start phase).
+ * `path` follows waypoints given as tile offsets from the entity's position
+ * (easing linear/eased/constant, mode loop/pingpong/once, speed in tiles per
+ * tick, pause and offset in ticks) and `orbit` circles the entity's position
+ * (radius in tiles, speed and phase in radians). Use at most one of `patrol`,
+ * `path` and `orbit`. Platforms may set `material` (ice, conveyor, mud);
+ * conveyors take `conveyorSpeed` in tiles per tick, negative moving left.
+ * Platforms and one-ways may crumble (`crumbleDelay`: ticks they hold once
+ * stood on, `respawnDelay`: ticks until they return) or blink (`blinkPeriod`:
+ * ticks per cycle, solid for the first half, shifted by `blinkOffset`).
+ * Triggers (plate, lever, key, button) power their `channel`; other entities
+ * with a `channel` are only present while it is powered (doors: only while it
+ * isn't), and `invert` flips that. Buttons stay on for `duration` ticks.
+ * Enemies take a `behavior` (walker, jumper, chaser; default walker), an
+ * optional starting `facing` (-1 left, 1 right) and `damage`. Turrets fire
+ * every `fireInterval` ticks, delayed by `fireOffset` ticks, towards
+ * `fireAngle` (degrees, 0 = right, 90 = down) at `projectileSpeed` tiles per
+ * tick; each hit deals `damage`.
+ */
+
+export const LEVEL_FORMAT = 'cube-parkour-level';
+export const LEVEL_FORMAT_VERSION = 1;
+
+const PATH_EASINGS: PathEasing[] = ['linear', 'eased', 'constant'];
+const PATH_MODES: PathMode[] = ['loop', 'pingpong', 'once'];
+export const SURFACE_MATERIALS: SurfaceMaterial[] = ['ice', 'conveyor', 'mud'];
+export const ENEMY_BEHAVIORS: EnemyBehavior[] = ['walker', 'jumper', 'chaser'];
+
+export const LEVEL_ENTITY_TYPES: EntityType[] = ['platform', 'spike', 'lava', 'coin', 'finish', 'checkpoint', 'text', 'bouncy', 'oneway',
+  'door', 'plate', 'lever', 'key', 'button', 'enemy', 'turret',
+];
+
+export interface LevelFileEntity {
+  type: EntityType;
+  id?: string;
+  x: number;
+  y: number;
+  w?: number;
+  h?: number;
+  damage?: number;
+  text?: string;
+  fontSize?: number;
+  patrol?: Vector;
+  speed?: number;
+  phase?: number;
+  path?: {
+    points: Vector[];
+    easing: PathEasing;
+    mode: PathMode;
+    speed: number;
+    pause?: number;
+    offset?: number;
+  };
+  orbit?: {
+    radius: number;
+    speed: number;
+    phase?: number;
+  };
+  material?: SurfaceMaterial;
+  conveyorSpeed?: number;
+  channel?: string;
+  invert?: boolean;
+  duration?: number;
+  behavior?: EnemyBehavior;
+  facing?: number;
+  fireInterval?: number;
+  fireAngle?: number;
+  fireOffset?: number;
+  projectileSpeed?: number;
+  crumbleDelay?: number;
+  respawnDelay?: number;
+  blinkPeriod?: number;
+  blinkOffset?: number;
+}
+
+export interface LevelFile {
+  format: typeof LEVEL_FORMAT;
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  spawn: Vector;
+  entities: LevelFileEntity[];
+}
+
+const toTiles = (px: number) => px / TILE_SIZE;
+const toPx = (tiles: number) => tiles * TILE_SIZE;
+
+export const levelToFile = (level: LevelData): LevelFile => ({
+  format: LEVEL_FORMAT,
+  version: LEVEL_FORMAT_VERSION,
+  name: level.name,
+  width: toTiles(level.width),
+  height: toTiles(level.height),
+  spawn: { x: toTiles(level.spawnPos.x), y: toTiles(level.spawnPos.y) },
+  entities: level.entities.map(entity => {
+    const fileEntity: LevelFileEntity = {
+      type: entity.type,
+      id: entity.id,
+      x: toTiles(entity.pos.x),
+      y: toTiles(entity.pos.y),
+    };
+    if (entity.type === 'text') {
+      fileEntity.text = entity.text;
+      fileEntity.fontSize = entity.fontSize;
+    } else {
+      fileEntity.w = toTiles(entity.size.x);
+      fileEntity.h = toTiles(entity.size.y);
+    }
+    if (entity.damage !== undefined) fileEntity.damage = entity.damage;
+    if (entity.patrolRange) {
+      fileEntity.patrol = { x: toTiles(entity.patrolRange.x), y: toTiles(entity.patrolRange.y) };
+      fileEntity.speed = entity.moveSpeed ?? DEFAULT_PATROL_SPEED;
+      fileEntity.phase = entity.moveOffset;
+    }
+    if (entity.path) {
+      fileEntity.path = {
+        points: entity.path.points.map(p => ({ x: toTiles(p.x), y: toTiles(p.y) })),
+        easing: entity.path.easing,
+        mode: entity.path.mode,
+        speed: toTiles(entity.path.speed),
+        pause: entity.path.pause,
+      };
+      if (entity.path.offset) fileEntity.path.offset = entity.path.offset;
+    }
+    if (entity.orbit) {
+      fileEntity.orbit = { radius: toTiles(entity.orbit.radius), speed: entity.orbit.speed, phase: entity.orbit.phase };
+    }
+    if (entity.material) fileEntity.material = entity.material;
+    if (entity.conveyorSpeed !== undefined) fileEntity.conveyorSpeed = toTiles(entity.conveyorSpeed);
+    if (entity.channel) fileEntity.channel = entity.channel;
+    if (entity.invert) fileEntity.invert = true;
+    if (entity.duration !== undefined) fileEntity.duration = entity.duration;
+    if (entity.behavior) fileEntity.behavior = entity.behavior;
+    if (entity.facing !== undefined) fileEntity.facing = entity.facing;
+    if (entity.fireInterval !== undefined) fileEntity.fireInterval = entity.fireInterval;
+    if (entity.fireAngle !== undefined) fileEntity.fireAngle = entity.fireAngle;
+    if (entity.fireOffset !== undefined) fileEntity.fireOffset = entity.fireOffset;
+    if (entity.projectileSpeed !== undefined) fileEntity.projectileSpeed = toTiles(entity.projectileSpeed);
+    if (entity.crumbleDelay !== undefined) fileEntity.crumbleDelay = entity.crumbleDelay;
+    if (entity.respawnDelay !== undefined) fileEntity.respawnDelay = entity.respawnDelay;
+    if (entity.blinkPeriod !== undefined) fileEntity.blinkPeriod = entity.blinkPeriod;
+    if (entity.blinkOffset !== undefined) fileEntity.blinkOffset = entity.blinkOffset;
+    return fileEntity;
+  }),
+});
+
+export const serializeLevel = (level: LevelData): string => JSON.stringify(levelToFile(level), null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isVector = (value: unknown): value is Vector => isRecord(value) && isNumber(value.x) && isNumber(value.y);
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+// Structural checks on the raw JSON, collecting every problem instead of stopping at the first
+const checkFileShape = (data: unknown): string[] => {
+  if (!isRecord(data)) return ['File does not contain a JSON object'];
+  const errors: string[] = [];
+  if (data.format !== LEVEL_FORMAT) errors.push(`format: expected "${LEVEL_FORMAT}"`);
+  if (data.version !== LEVEL_FORMAT_VERSION) errors.push(`version: unsupported version ${data.version} (expected ${LEVEL_FORMAT_VERSION})`);
+  if (typeof data.name !== 'string' || data.name.trim() === '') errors.push('name: must be a non-empty string');
+  if (!isNumber(data.width) || data.width <= 0) errors.push('width: must be a positive number of tiles');
+  if (!isNumber(data.height) || data.height <= 0) errors.push('height: must be a positive number of tiles');
+  if (!isVector(data.spawn)) errors.push('spawn: must be an object with numeric x and y');
+  if (!Array.isArray(data.entities)) {
+    errors.push('entities: must be an array');
+    return errors;
+  }
+
+  data.entities.forEach((e: unknown, i: number) => {
+    const at = `entities[${i}]`;
+    if (!isRecord(e)) {
+      errors.push(`${at}: must be an object`);
+      return;
+    }
+    if (!isOneOf(LEVEL_ENTITY_TYPES, e.type)) {
+      errors.push(`${at}.type: unknown entity type ${JSON.stringify(e.type)} (expected one of ${LEVEL_ENTITY_TYPES.join(', ')})`);
+    }
+    if (e.id !== undefined && typeof e.id !== 'string') errors.push(`${at}.id: must be a string`);
+    if (!isNumber(e.x) || !isNumber(e.y)) errors.push(`${at}: x and y must be numbers`);
+    (['w', 'h', 'damage', 'fontSize', 'speed', 'phase', 'conveyorSpeed', 'duration',
+      'fireAngle', 'fireOffset', 'crumbleDelay', 'respawnDelay', 'blinkOffset'] as const).forEach(key => {
+      if (e[key] !== undefined && !isNumber(e[key])) errors.push(`${at}.${key}: must be a number`);
+    });
+    if (e.patrol !== undefined && !isVector(e.patrol)) errors.push(`${at}.patrol: must be an object with numeric x and y`);
+    if (e.path !== undefined) {
+      const path = isRecord(e.path) ? e.path : {};
+      if (!Array.isArray(path.points) || path.points.length === 0 || !path.points.every(isVector)) {
+        errors.push(`${at}.path.points: must be a non-empty array of objects with numeric x and y`);
+      }
+      if (!isOneOf(PATH_EASINGS, path.easing)) errors.push(`${at}.path.easing: expected one of ${PATH_EASINGS.join(', ')}`);
+      if (!isOneOf(PATH_MODES, path.mode)) errors.push(`${at}.path.mode: expected one of ${PATH_MODES.join(', ')}`);
+      if (!isNumber(path.speed) || path.speed <= 0) errors.push(`${at}.path.speed: must be a positive number`);
+      (['pause', 'offset'] as const).forEach(key => {
+        if (path[key] !== undefined && !isNumber(path[key])) errors.push(`${at}.path.${key}: must be a number`);
+      });
+    }
+    if (e.orbit !== undefined) {
+      const orbit = isRecord(e.orbit) ? e.orbit : {};
+      if (!isNumber(orbit.radius) || !isNumber(orbit.speed)) errors.push(`${at}.orbit: radius and speed must be numbers`);
+      if (orbit.phase !== undefined && !isNumber(orbit.phase)) errors.push(`${at}.orbit.phase: must be a number`);
+    }
+    if (e.material !== undefined && !isOneOf(SURFACE_MATERIALS, e.material)) {
+      errors.push(`${at}.material: expected one of ${SURFACE_MATERIALS.join(', ')}`);
+    }
+    if (e.channel !== undefined && typeof e.channel !== 'string') errors.push(`${at}.channel: must be a string`);
+    if (e.invert !== undefined && typeof e.invert !== 'boolean') errors.push(`${at}.invert: must be true or false`);
+    if (e.behavior !== undefined && !isOneOf(ENEMY_BEHAVIORS, e.behavior)) {
+      errors.push(`${at}.behavior: expected one of ${ENEMY_BEHAVIORS.join(', ')}`);
+    }
+    if (e.facing !== undefined && e.facing !== -1 && e.facing !== 1) errors.push(`${at}.facing: must be -1 or 1`);
+    if (e.fireInterval !== undefined && (!isNumber(e.fireInterval) || e.fireInterval < 1)) {
+      errors.push(`${at}.fireInterval: must be a number of ticks, at least 1`);
+    }
+    if (e.projectileSpeed !== undefined && (!isNumber(e.projectileSpeed) || e.projectileSpeed <= 0)) {
+      errors.push(`${at}.projectileSpeed: must be a positive number`);
+    }
+    if (e.blinkPeriod !== undefined && (!isNumber(e.blinkPeriod) || e.blinkPeriod < 2)) {
+      errors.push(`${at}.blinkPeriod: must be a number of ticks, at least 2`);
+    }
+    if (e.crumbleDelay !== undefined && e.blinkPeriod !== undefined) {
+      errors.push(`${at}: use either crumbleDelay or blinkPeriod, not both`);
+    }
+    if (e.type === 'text' && typeof e.text !== 'string') errors.push(`${at}.text: text entities need a string "text"`);
+  });
+
+  return errors;
+};
+
+export const fileToLevel = (file: LevelFile, id: number = CUSTOM_LEVEL_ID): LevelData => {
+  const usedIds = new Set(file.entities.map(e => e.id));
+  const counters: { [type: string]: number } = {};
+  const entities: Entity[] = file.entities.map(e => {
+    counters[e.type] = (counters[e.type] ?? 0) + 1;
+    // Generated ids skip numbers that other entities in the file claim explicitly
+    while (e.id === undefined && usedIds.has(`${e.type}-${counters[e.type]}`)) counters[e.type]++;
+    const entity: Entity = {
+      id: e.id ?? `${e.type}-${counters[e.type]}`,
+      type: e.type,
+      pos: { x: toPx(e.x), y: toPx(e.y) },
+      size: e.type === 'text' ? { x: 0, y: 0 } : { x: toPx(e.w ?? 1), y: toPx(e.h ?? 1) },
+      active: true,
+    };
+    if (e.damage !== undefined) entity.damage = e.damage;
+    if (e.type === 'text') {
+      entity.text = e.text;
+      entity.fontSize = e.fontSize ?? 24;
+    }
+    if (e.patrol) {
+      entity.patrolRange = { x: toPx(e.patrol.x), y: toPx(e.patrol.y) };
+      entity.moveSpeed = e.speed ?? DEFAULT_PATROL_SPEED;
+      entity.moveOffset = e.phase ?? 0;
+    }
+    if (e.path) {
+      entity.path = {
+        points: e.path.points.map(p => ({ x: toPx(p.x), y: toPx(p.y) })),
+        easing: e.path.easing,
+        mode: e.path.mode,
+        speed: toPx(e.path.speed),
+        pause: e.path.pause ?? 0,
+        offset: e.path.offset,
+      };
+    }
+    if (e.orbit) {
+      entity.orbit = { radius: toPx(e.orbit.radius), speed: e.orbit.speed, phase: e.orbit.phase ?? 0 };
+    }
+    if (e.material) entity.material = e.material;
+    if (e.conveyorSpeed !== undefined) entity.conveyorSpeed = toPx(e.conveyorSpeed);
+    if (e.channel) entity.channel = e.channel;
+    if (e.invert) entity.invert = true;
+    if (e.duration !== undefined) entity.duration = e.duration;
+    if (e.behavior) entity.behavior = e.behavior;
+    if (e.facing !== undefined) entity.facing = e.facing;
+    if (e.fireInterval !== undefined) entity.fireInterval = e.fireInterval;
+    if (e.fireAngle !== undefined) entity.fireAngle = e.fireAngle;
+    if (e.fireOffset !== undefined) entity.fireOffset = e.fireOffset;
+    if (e.projectileSpeed !== undefined) entity.projectileSpeed = toPx(e.projectileSpeed);
+    if (e.crumbleDelay !== undefined) entity.crumbleDelay = e.crumbleDelay;
+    if (e.respawnDelay !== undefined) entity.respawnDelay = e.respawnDelay;
+    if (e.blinkPeriod !== undefined) entity.blinkPeriod = e.blinkPeriod;
+    if (e.blinkOffset !== undefined) entity.blinkOffset = e.blinkOffset;
+    return entity;
+  });
+
+  return {
+    id,
+    name: file.name,
+    spawnPos: { x: toPx(file.spawn.x), y: toPx(file.spawn.y) },
+    width: toPx(file.width),
+    height: toPx(file.height),
+    entities,
+  };
+};
+
+const describe = (entity: Entity) =>
+  `${entity.type} "${entity.id}" at (${toTiles(entity.pos.x)}, ${toTiles(entity.pos.y)})`;
+
+/**
+ * Gameplay checks on a level, shared by file import and the editor.
+ * Returns a human readable message per problem; an empty list means valid.
+ */
+export const validateLevel = (level: LevelData): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (level.width <= 0 || level.height <= 0) {
+    errors.push('Level width and height must be positive');
+  }
+
+  level.entities.forEach(entity => {
+    if (!LEVEL_ENTITY_TYPES.includes(entity.type)) {
+      errors.push(`Unknown entity type "${entity.type}" for "${entity.id}"`);
+    }
+    if (ids.has(entity.id)) {
+      errors.push(`Duplicate entity id "${entity.id}"`);
+    }
+    ids.add(entity.id);
+
+    if (entity.type !== 'text' && (entity.size.x <= 0 || entity.size.y <= 0)) {
+      errors.push(`${describe(entity)} has a non-positive size (${toTiles(entity.size.x)} x ${toTiles(entity.size.y)})`);
+    }
+    if (
+      entity.pos.x < 0 ||
+      entity.pos.y < 0 ||
+      entity.pos.x + Math.max(0, entity.size.x) > level.width ||
+      entity.pos.y + Math.max(0, entity.size.y) > level.height
+    ) {
+      errors.push(`${describe(entity)} is outside the level bounds`);
+    }
+    if (entity.path && entity.path.points.length === 0) {
+      errors.push(`${describe(entity)} has a path with no points`);
+    }
+  });
+
+  if (!level.entities.some(entity => entity.type === 'finish')) {
+    errors.push('Level has no finish');
+  }
+
+  // A target nothing can power would be stuck in its initial state
+  const triggerChannels = new Set(level.entities.filter(isTrigger).map(entity => entity.channel));
+  level.entities.forEach(entity => {
+    if (isTrigger(entity) && !entity.channel) {
+      errors.push(`${describe(entity)} has no channel`);
+    } else if (entity.channel && !isTrigger(entity) && !triggerChannels.has(entity.channel)) {
+      errors.push(`${describe(entity)} listens on channel "${entity.channel}", which no trigger powers`);
+    }
+  });
+
+  const spawnRect = { pos: level.spawnPos, size: { x: PLAYER_SIZE, y: PLAYER_SIZE } };
+  if (
+    spawnRect.pos.x < 0 ||
+    spawnRect.pos.y < 0 ||
+    spawnRect.pos.x + PLAYER_SIZE > level.width ||
+    spawnRect.pos.y + PLAYER_SIZE > level.height
+  ) {
+    errors.push('Spawn point is outside the level bounds');
+  }
+  const blocking = level.entities.find(
+    entity => (entity.type === 'platform' || entity.type === 'bouncy' || entity.type === 'door' || entity.type === 'turret') &&
+      checkCollision(spawnRect, entity)
+  );
+  if (blocking) {
+    errors.push(`Spawn point is inside ${describe(blocking)}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Parses and validates a level file. Throws an Error listing every problem
+ * found, one per line.
+ */
+export const parseLevelFile = (text: string, id: number = CUSTOM_LEVEL_ID): LevelData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Level file is not valid JSON: ${(e as Error).message}`);
+  }
+
+  const shapeErrors = checkFileShape(data);
+  if (shapeErrors.length > 0) {
+    throw new Error(shapeErrors.join('\n'));
+  }
+
+  const level = fileToLevel(data as LevelFile, id);
+  const errors = validateLevel(level);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return level;
+};
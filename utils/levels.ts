@@ -1,6 +1,16 @@
 
-import { LevelData, Entity, EntityType } from '../types';
-import { TILE_SIZE } from '../constants';
+import { LevelData, Entity, EntityType, EntityPath, PathEasing, PathMode, EnemyBehavior } from '../types';
+import { TILE_SIZE, DEFAULT_CRUMBLE_DELAY, DEFAULT_RESPAWN_DELAY, DEFAULT_BLINK_PERIOD } from '../constants';
+
+// Entity IDs are derived from type and tile position so they are stable across
+// page loads. The level id prefix is added by `finalizeLevel`.
+const entityKey = (type: EntityType, x: number, y: number) => `${type}-${x}-${y}`;
+
+// Deterministic phase offset (0-Math.PI*2) so hazards don't all move in sync
+const phaseFromPosition = (x: number, y: number) => {
+  const hash = Math.abs((Math.round(x * 2) * 73856093) ^ (Math.round(y * 2) * 19349663));
+  return ((hash % 360) / 360) * Math.PI * 2;
+};
 
 const createEntity = (
   type: EntityType,
@@ -10,7 +20,7 @@ const createEntity = (
   h: number = 1,
   props: Partial<Entity> = {}
 ): Entity => ({
-  id: `${type}-${x}-${y}-${Math.random()}`,
+  id: entityKey(type, x, y),
   type,
   pos: { x: x * TILE_SIZE, y: y * TILE_SIZE },
   size: { x: w * TILE_SIZE, y: h * TILE_SIZE },
@@ -19,7 +29,7 @@ const createEntity = (
 });
 
 const createText = (x: number, y: number, text: string, fontSize: number = 24) => ({
-  id: `text-${x}-${y}-${Math.random()}`,
+  id: entityKey('text', x, y),
   type: 'text' as EntityType,
   pos: { x: x * TILE_SIZE, y: y * TILE_SIZE },
   size: { x: 0, y: 0 },
@@ -32,6 +42,49 @@ const createText = (x: number, y: number, text: string, fontSize: number = 24) =
 const createPlatform = (x: number, y: number, w: number, h: number) => 
   createEntity('platform', x, y, w, h);
 
+// Jump-through ledge, half a tile thick; crouching on it drops the player through
+const createOneWayPlatform = (x: number, y: number, w: number) =>
+  createEntity('oneway', x, y, w, 0.5);
+
+// Slippery platform: the player keeps sliding after letting go
+const createIcePlatform = (x: number, y: number, w: number, h: number) =>
+  createEntity('platform', x, y, w, h, { material: 'ice' });
+
+// Belt that carries the player; speed in tiles per tick, negative moves left.
+// Without a speed it runs at SURFACE_CONFIG.conveyor.speed like an editor-placed belt
+const createConveyor = (x: number, y: number, w: number, h: number, speed?: number) =>
+  createEntity('platform', x, y, w, h, {
+    material: 'conveyor',
+    ...(speed !== undefined ? { conveyorSpeed: speed * TILE_SIZE } : {}),
+  });
+
+// Sticky ground: slow walking and weak jumps
+const createMudPlatform = (x: number, y: number, w: number, h: number) =>
+  createEntity('platform', x, y, w, h, { material: 'mud' });
+
+// Shakes once stood on, falls `delay` ticks later and comes back after `respawn` ticks
+const createCrumblingPlatform = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  delay: number = DEFAULT_CRUMBLE_DELAY,
+  respawn: number = DEFAULT_RESPAWN_DELAY
+) => createEntity('platform', x, y, w, h, { crumbleDelay: delay, respawnDelay: respawn });
+
+// Solid for the first half of every `period` ticks; `offset` shifts the cycle so neighbours can alternate
+const createBlinkingPlatform = (
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  period: number = DEFAULT_BLINK_PERIOD,
+  offset: number = 0
+) => createEntity('platform', x, y, w, h, {
+  blinkPeriod: period,
+  ...(offset ? { blinkOffset: offset } : {}),
+});
+
 const createBouncyBlock = (x: number, y: number, w: number = 1, h: number = 1) =>
   createEntity('bouncy', x, y, w, h);
 
@@ -47,18 +100,139 @@ const createMovingHazard = (
 ) => createEntity(type, x, y, w, h, {
   patrolRange: { x: rangeX * TILE_SIZE, y: rangeY * TILE_SIZE },
   moveSpeed: speed,
-  moveOffset: Math.random() * Math.PI * 2
+  moveOffset: phaseFromPosition(x, y)
 });
 
+// Platform or bouncy block that patrols like a moving hazard and carries the player
+const createMovingBlock = (
+  type: 'platform' | 'bouncy',
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  rangeX: number,
+  rangeY: number,
+  speed: number = 0.02
+) => createEntity(type, x, y, w, h, {
+  patrolRange: { x: rangeX * TILE_SIZE, y: rangeY * TILE_SIZE },
+  moveSpeed: speed,
+  moveOffset: phaseFromPosition(x, y)
+});
+
+interface PathOptions {
+  easing?: PathEasing;
+  mode?: PathMode;
+  speed?: number; // Tiles per tick
+  pause?: number; // Ticks
+  offset?: number; // Ticks
+}
+
+// Waypoints are [x, y] tile offsets from the entity's position
+const createPath = (points: [number, number][], options: PathOptions): EntityPath => ({
+  points: points.map(([x, y]) => ({ x: x * TILE_SIZE, y: y * TILE_SIZE })),
+  easing: options.easing ?? 'constant',
+  mode: options.mode ?? 'loop',
+  speed: (options.speed ?? 0.05) * TILE_SIZE,
+  pause: options.pause ?? 0,
+  offset: options.offset,
+});
+
+// Hazard following a waypoint path, e.g. a saw blade circuit
+const createPathHazard = (
+  type: 'spike' | 'lava',
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  points: [number, number][],
+  options: PathOptions = {}
+) => createEntity(type, x, y, w, h, { path: createPath(points, options) });
+
+// Platform or bouncy block following a waypoint path, e.g. an elevator
+const createPathBlock = (
+  type: 'platform' | 'bouncy',
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  points: [number, number][],
+  options: PathOptions = {}
+) => createEntity(type, x, y, w, h, { path: createPath(points, options) });
+
+// Hazard circling the point it was placed at; radius in tiles, speed in radians per tick
+const createOrbitingHazard = (
+  type: 'spike' | 'lava',
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  radius: number,
+  speed: number = 0.03
+) => createEntity(type, x, y, w, h, {
+  orbit: { radius: radius * TILE_SIZE, speed, phase: phaseFromPosition(x, y) }
+});
+
+// Plate, lever, key or button powering `channel`, sized to rest on the tile below y
+const TRIGGER_SIZES = { plate: [1, 0.5], lever: [0.5, 1], key: [0.5, 0.5], button: [0.5, 0.5] } as const;
+const createTrigger = (
+  type: 'plate' | 'lever' | 'key' | 'button',
+  x: number,
+  y: number,
+  channel: string,
+  duration?: number
+) => {
+  const [w, h] = TRIGGER_SIZES[type];
+  return createEntity(type, x, y + 1 - h, w, h, duration !== undefined ? { channel, duration } : { channel });
+};
+
+// Gate that opens while `channel` is powered (closes instead with `invert`)
+const createDoor = (x: number, y: number, h: number, channel: string, invert: boolean = false) =>
+  createEntity('door', x, y, 0.5, h, invert ? { channel, invert } : { channel });
+
+// Platform or hazard that only exists while `channel` is powered (or only while it isn't, with `invert`)
+const createSwitchable = (entity: Entity, channel: string, invert: boolean = false): Entity =>
+  invert ? { ...entity, channel, invert } : { ...entity, channel };
+
+// Walker patrols and turns at ledges, jumper hops along its patrol, chaser runs at a nearby player.
+// Starts facing left (-1) unless told otherwise; stomping from above defeats it
+const createEnemy = (behavior: EnemyBehavior, x: number, y: number, facing: 1 | -1 = -1) =>
+  createEntity('enemy', x, y, 1, 1, { behavior, facing });
+
+// Block firing a shot every `interval` ticks towards `angle` (degrees, 0 = right, 90 = down);
+// `offset` delays its rhythm so neighbouring turrets can alternate
+const createTurret = (x: number, y: number, angle: number, interval: number, offset: number = 0) =>
+  createEntity('turret', x, y, 1, 1, {
+    fireAngle: angle,
+    fireInterval: interval,
+    ...(offset ? { fireOffset: offset } : {}),
+  });
+
 const createWeakSpike = (x: number, y: number) => 
   createEntity('spike', x, y, 1, 1, { damage: 25 });
 
+/**
+ * Prefixes every entity id with the level id and rejects levels that contain
+ * two entities with the same id, so saves and replays can refer to them.
+ */
+export const finalizeLevel = (level: LevelData): LevelData => {
+  const seen = new Set<string>();
+  const entities = level.entities.map(entity => {
+    const id = entity.id.startsWith(`${level.id}:`) ? entity.id : `${level.id}:${entity.id}`;
+    if (seen.has(id)) {
+      throw new Error(`Duplicate entity id "${id}" in level ${level.id} (${level.name})`);
+    }
+    seen.add(id);
+    return { ...entity, id };
+  });
+  return { ...level, entities };
+};
+
 export const levels: LevelData[] = [
   {
     id: 0,
     name: "Tutorial",
     spawnPos: { x: 50, y: 550 },
-    width: 3500,
+    width: 3600,
     height: 800,
     entities: [
       // Start Area
@@ -96,11 +270,18 @@ export const levels: LevelData[] = [
       createEntity('lava', 68, 15, 4, 1), // Pit
       createPlatform(73, 13, 3, 1),
 
+      // Wall Jump Chimney: enter under the left wall, climb out over the right one
+      createPlatform(78, 13, 6, 1), // Floor
+      createPlatform(79, 6, 1, 5), // Left wall
+      createPlatform(83, 5, 1, 8), // Right wall
+      createText(81.5, 1, "Hold Toward a Wall to Slide, Jump Off It to Climb"),
+      createEntity('coin', 81.25, 7, 0.5, 0.5), // Halfway up the chimney
+
       // Finish
       createEntity('coin', 34, 12, 0.5, 0.5), // In crouch tunnel
       createEntity('coin', 48, 10, 0.5, 0.5), // Over spike
-      createPlatform(78, 13, 5, 1),
-      createEntity('finish', 80, 10, 2, 3),
+      createPlatform(84, 5, 5, 1),
+      createEntity('finish', 86, 2, 2, 3),
     ]
   },
   {
@@ -124,7 +305,11 @@ export const levels: LevelData[] = [
       createWeakSpike(12, 14), // Weak spike to be forgiving
       createEntity('spike', 13, 14, 1, 1), // Real spike
       createEntity('lava', 20, 16, 4, 1),
-      
+
+      // Enemies - stomp them from above
+      createEnemy('walker', 30, 13),
+      createEnemy('jumper', 41, 11),
+
       // Coins - Adjusted for better accessibility
       createEntity('coin', 9, 8, 0.5, 0.5),
       createEntity('coin', 15, 6, 0.5, 0.5),
@@ -153,16 +338,16 @@ export const levels: LevelData[] = [
       createPlatform(24, 13, 2, 1),
       
       // Crouch Section (Low ceiling)
-      createPlatform(30, 15, 12, 1), // Floor
+      createConveyor(30, 15, 12, 1), // Floor, carries the player through
       createPlatform(30, 13, 12, 1), // Ceiling
       
       // Lava Pit
       createPlatform(42, 15, 2, 8),
       createEntity('lava', 44, 20, 10, 2),
-      createPlatform(46, 17, 2, 1),
+      createMudPlatform(46, 17, 2, 1), // Too sticky to jump out of without a double jump
       createPlatform(50, 15, 2, 1),
       createPlatform(54, 13, 2, 1),
-      createPlatform(58, 15, 5, 5),
+      createIcePlatform(58, 15, 4.5, 5), // Icy landing that ends at the level edge
 
       // Moving Spikes - Sliding on ground now
       createPlatform(14, 14, 5, 1),
@@ -189,15 +374,15 @@ export const levels: LevelData[] = [
     height: 1200,
     entities: [
        createPlatform(0, 20, 12, 2),
-       // Steps up - Widened for easier jumping
-       createPlatform(10, 18, 3, 1), 
-       createPlatform(14, 16, 3, 1),
-       createPlatform(18, 14, 3, 1),
-       createPlatform(14, 10, 3, 1),
-       createPlatform(10, 6, 3, 1),
+       // Steps up - Widened for easier jumping, and jump-through so they don't bonk
+       createOneWayPlatform(10, 18, 3),
+       createOneWayPlatform(14, 16, 3),
+       createOneWayPlatform(18, 14, 3),
+       createOneWayPlatform(14, 10, 3),
+       createOneWayPlatform(10, 6, 3),
        
        // Big fall risk
-       createEntity('lava', 0, 22, 50, 2),
+       createEntity('lava', 0, 22, 37.5, 2), // Full level width
 
        // Moving platforms - Widened and slowed
        createPlatform(11, 12, 7, 1), 
@@ -250,9 +435,9 @@ export const levels: LevelData[] = [
       
       // Moving lava sea below
       createMovingHazard('lava', 30, 20, 5, 2, 5, 0, 0.02),
-      createPlatform(38, 14, 2, 1),
+      createMovingBlock('platform', 38, 14, 2, 1, 1.5, 0), // Ferries across, wait for it at either end
       createPlatform(44, 12, 2, 1),
-      createPlatform(50, 14, 2, 1),
+      createMovingBlock('platform', 50, 14, 2, 1, 0, 1.5), // Lift, jump off near the top
 
       // Coins
       createEntity('coin', 10, 12, 0.5, 0.5),
@@ -291,6 +476,7 @@ export const levels: LevelData[] = [
       createEntity('lava', 28, 24, 12, 2),
 
       createPlatform(30, 14, 3, 1),
+      createOrbitingHazard('spike', 29.75, 9.75, 1, 1, 1.5), // Circles the coin above
       createPlatform(36, 12, 3, 1),
 
       // SAFE ZONE & Checkpoint
@@ -300,11 +486,13 @@ export const levels: LevelData[] = [
 
       // The descent
       createPlatform(52, 14, 4, 1),
+      createPathHazard('spike', 51, 13, 1, 1, [[5, 0], [5, 2], [0, 2]]), // Saw running round the ledge
       createPlatform(58, 16, 4, 1),
       
       // Ground hazard section
       createPlatform(48, 20, 20, 1), // Floor
       createMovingHazard('spike', 58, 19, 1, 1, 4, 0, 0.03),
+      createTurret(66, 19, 180, 150), // Shots along the floor to jump over
 
       // Final Coins
       createEntity('coin', 10, 15, 0.5, 0.5),
@@ -352,8 +540,8 @@ export const levels: LevelData[] = [
       
       // Final Stretch
       createPlatform(60, 12, 2, 1),
-      createPlatform(64, 10, 2, 1),
-      createPlatform(68, 12, 2, 1),
+      createCrumblingPlatform(64, 10, 2, 1, 40), // Don't linger
+      createBlinkingPlatform(68, 12, 2, 1),
       createEntity('lava', 58, 20, 20, 2), // Pit below
 
       // Coins
@@ -375,37 +563,42 @@ export const levels: LevelData[] = [
       createPlatform(0, 36, 15, 2), // Base floor
       
       // The ascent begins
-      createPlatform(10, 32, 4, 1),
-      createPlatform(4, 29, 4, 1),
-      createPlatform(12, 26, 4, 1),
-      createPlatform(2, 23, 4, 1),
+      createOneWayPlatform(10, 32, 4),
+      createOneWayPlatform(4, 29, 4),
+      createOneWayPlatform(12, 26, 4),
+      createOneWayPlatform(2, 23, 4),
 
       // Hazard Layer 1
       createPlatform(10, 20, 8, 1),
       createMovingHazard('spike', 14, 19, 1, 1, 3, 0, 0.03),
 
+      // Lift up the right side to a coin ledge, skipping the checkpoint
+      createPathBlock('platform', 19, 20, 2, 0.5, [[0, -8]], { mode: 'pingpong', easing: 'eased', pause: 60 }),
+      createPlatform(23, 12, 3, 1),
+
       // Checkpoint
       createPlatform(2, 17, 6, 1),
       createEntity('checkpoint', 4, 15, 1, 2),
 
       // Narrow vertical jumps
-      createPlatform(12, 15, 3, 1),
-      createPlatform(16, 12, 3, 1),
-      createPlatform(12, 9, 3, 1),
+      createOneWayPlatform(12, 15, 3),
+      createOneWayPlatform(16, 12, 3),
+      createOneWayPlatform(12, 9, 3),
       
       // Moving vertical hazard logic? (Using x-movement for now)
       createPlatform(4, 9, 6, 1),
       createMovingHazard('spike', 7, 8, 1, 1, 2, 0, 0.04),
 
       // Final Climb
-      createPlatform(10, 6, 3, 1),
-      createPlatform(15, 4, 3, 1),
-      createPlatform(20, 4, 3, 1), // Top right
+      createOneWayPlatform(10, 6, 3),
+      createOneWayPlatform(15, 4, 3),
+      createOneWayPlatform(20, 4, 3), // Top right
 
       // Coins
       createEntity('coin', 4, 27, 0.5, 0.5),
       createEntity('coin', 17, 18, 0.5, 0.5), // Risky coin near spike
       createEntity('coin', 12, 7, 0.5, 0.5),
+      createEntity('coin', 24, 10, 0.5, 0.5), // Top of the lift
 
       // Finish at top
       createPlatform(2, 4, 6, 2),
@@ -415,7 +608,7 @@ export const levels: LevelData[] = [
   {
     id: 8,
     name: "Level 8: Dimension Drift",
-    spawnPos: { x: 100, y: 600 },
+    spawnPos: { x: 100, y: 568 }, // Standing on the start platform
     width: 4000,
     height: 1200,
     entities: [
@@ -488,7 +681,7 @@ export const levels: LevelData[] = [
       createEntity('checkpoint', 28, 8, 1, 2),
 
       // High Wall Bounce
-      createPlatform(34, 14, 2, 8), // Wall
+      createPlatform(34, 14, 2, 6), // Wall, down to the bottom of the level
       createBouncyBlock(32, 16, 2, 1), // Launcher
       createPlatform(34, 6, 6, 1), // Top of wall
 
@@ -509,7 +702,7 @@ export const levels: LevelData[] = [
   {
     id: 10,
     name: "Level 10: Sky High",
-    spawnPos: { x: 50, y: 1000 },
+    spawnPos: { x: 50, y: 968 }, // Standing on the start platform
     width: 2500,
     height: 1200,
     entities: [
@@ -551,5 +744,45 @@ export const levels: LevelData[] = [
       createPlatform(52, 6, 8, 2),
       createEntity('finish', 56, 3, 2, 3),
     ]
+  },
+  {
+    id: 11,
+    name: "Level 11: Lock and Key",
+    spawnPos: { x: 80, y: 688 }, // Standing on the start platform
+    width: 2400,
+    height: 800,
+    entities: [
+      createPlatform(0, 18, 12, 2),
+      createText(6, 13, "Pull the Lever!"),
+
+      // Lever raises a bridge over a pit too wide to jump
+      createTrigger('lever', 9, 17, 'bridge'),
+      createEntity('lava', 12, 19, 12, 1),
+      createSwitchable(createPlatform(16, 18, 4, 1), 'bridge'),
+
+      // Timed button up on the ledge opens the gate for a short run
+      createPlatform(24, 18, 12, 2),
+      createPlatform(25, 14, 2, 1),
+      createTrigger('button', 25.75, 13, 'gate', 120),
+      createPlatform(33, 0, 2, 14), // Wall above the gate
+      createDoor(33.75, 14, 4, 'gate'),
+
+      // Checkpoint
+      createPlatform(35, 18, 25, 2),
+      createEntity('checkpoint', 36, 16, 1, 2),
+
+      // Picking up the key clears the spikes from the low tunnel
+      createPlatform(39, 14, 2, 1),
+      createTrigger('key', 39.75, 13, 'vault'),
+      createPlatform(43, 0, 8, 15), // Tunnel ceiling
+      createSwitchable(createEntity('spike', 44, 17, 6, 1), 'vault', true),
+
+      // Coins
+      createEntity('coin', 18, 15, 0.5, 0.5),
+      createEntity('coin', 25.75, 11, 0.5, 0.5),
+      createEntity('coin', 39.75, 11, 0.5, 0.5),
+
+      createEntity('finish', 56, 15, 2, 3),
+    ]
   }
-];
+].map(finalizeLevel);
@@ -0,0 +1,94 @@
+
+import { Entity, EntityOrbit, EntityPath, Vector } from '../types';
+import { DEFAULT_PATROL_SPEED } from '../constants';
+
+// Entity motion as a pure function of the simulation tick, so moving
+// entities stay in sync with replays and ghosts no matter when a level is entered.
+
+interface Leg {
+  from: Vector;
+  to: Vector;
+  ticks: number; // Travel time, followed by the path's pause
+}
+
+const distance = (a: Vector, b: Vector) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+const getLegs = (path: EntityPath): Leg[] => {
+  const nodes = [{ x: 0, y: 0 }, ...path.points];
+  let order: Vector[];
+  if (path.mode === 'loop') {
+    order = [...nodes, nodes[0]];
+  } else if (path.mode === 'pingpong') {
+    order = [...nodes, ...nodes.slice(0, -1).reverse()];
+  } else {
+    order = nodes;
+  }
+
+  const pairs = order.slice(1).map((to, i) => ({ from: order[i], to }));
+  const totalLength = pairs.reduce((sum, leg) => sum + distance(leg.from, leg.to), 0);
+  const speed = Math.max(path.speed, 0.01);
+  const averageTicks = totalLength / speed / Math.max(pairs.length, 1);
+
+  return pairs.map(({ from, to }) => ({
+    from,
+    to,
+    ticks: Math.max(1, path.easing === 'constant' ? distance(from, to) / speed : averageTicks),
+  }));
+};
+
+export const getPathOffset = (path: EntityPath, tick: number): Vector => {
+  const legs = getLegs(path);
+  if (legs.length === 0) return { x: 0, y: 0 };
+
+  const pause = Math.max(0, path.pause);
+  const cycle = legs.reduce((sum, leg) => sum + leg.ticks + pause, 0);
+  let t = tick + (path.offset ?? 0);
+
+  if (path.mode === 'once') {
+    // Starts with a pause at the first node, then stops at the last
+    t -= pause;
+    if (t <= 0) return { ...legs[0].from };
+    if (t >= cycle - pause) return { ...legs[legs.length - 1].to };
+  } else {
+    t = ((t % cycle) + cycle) % cycle;
+  }
+
+  for (const leg of legs) {
+    if (t < leg.ticks) {
+      const linear = t / leg.ticks;
+      const progress = path.easing === 'eased' ? smoothstep(linear) : linear;
+      return {
+        x: leg.from.x + (leg.to.x - leg.from.x) * progress,
+        y: leg.from.y + (leg.to.y - leg.from.y) * progress,
+      };
+    }
+    t -= leg.ticks;
+    if (t < pause) return { ...leg.to };
+    t -= pause;
+  }
+  return { ...legs[legs.length - 1].to };
+};
+
+export const getOrbitOffset = (orbit: EntityOrbit, tick: number): Vector => {
+  const angle = orbit.phase + tick * orbit.speed;
+  return { x: Math.cos(angle) * orbit.radius, y: Math.sin(angle) * orbit.radius };
+};
+
+/**
+ * Offset of a moving entity from its start position at `tick`, or null if
+ * the entity doesn't move. A path takes priority over an orbit, and both over
+ * the sinusoidal patrol.
+ */
+export const getMovementOffset = (entity: Entity, tick: number): Vector | null => {
+  if (entity.path) return getPathOffset(entity.path, tick);
+  if (entity.orbit) return getOrbitOffset(entity.orbit, tick);
+  if (entity.patrolRange) {
+    const speed = entity.moveSpeed ?? DEFAULT_PATROL_SPEED;
+    const offset = entity.moveOffset || 0;
+    const wave = Math.sin(tick * speed + offset);
+    return { x: wave * entity.patrolRange.x, y: wave * entity.patrolRange.y };
+  }
+  return null;
+};
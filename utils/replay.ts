@@ -0,0 +1,125 @@
+
+import { GameModifiers, LevelData } from '../types';
+import { EMPTY_INPUT, SimInput } from './simulation';
+
+// Replays store the per-tick SimInput of a run. Since simulateStep is
+// deterministic, feeding the same inputs back reproduces the run exactly.
+
+export const REPLAY_VERSION = 2; // v2: jumpHeld input bit
+
+export interface Replay {
+  version: number;
+  levelId: number;
+  modifiers: GameModifiers;
+  collectedCoinIds: string[]; // Coins already taken when the run started
+  ticks: number;
+  // Run-length encoded input masks: [mask, count, mask, count, ...]
+  inputs: number[];
+}
+
+const INPUT_BITS: Record<keyof SimInput, number> = {
+  left: 1,
+  right: 2,
+  run: 4,
+  crouch: 8,
+  jump: 16,
+  jumpHeld: 32,
+};
+
+const MODIFIER_KEYS: (keyof GameModifiers)[] = ['energized', 'lowGravity', 'highGravity', 'oldSchool', 'hardcore', 'tanky'];
+
+export const encodeInput = (input: SimInput): number => {
+  let mask = 0;
+  (Object.keys(INPUT_BITS) as (keyof SimInput)[]).forEach(key => {
+    if (input[key]) mask |= INPUT_BITS[key];
+  });
+  return mask;
+};
+
+export const decodeInput = (mask: number): SimInput => ({
+  left: (mask & INPUT_BITS.left) !== 0,
+  right: (mask & INPUT_BITS.right) !== 0,
+  run: (mask & INPUT_BITS.run) !== 0,
+  crouch: (mask & INPUT_BITS.crouch) !== 0,
+  jump: (mask & INPUT_BITS.jump) !== 0,
+  jumpHeld: (mask & INPUT_BITS.jumpHeld) !== 0,
+});
+
+export const createReplay = (level: LevelData, modifiers: GameModifiers, collectedCoinIds: Set<string>): Replay => ({
+  version: REPLAY_VERSION,
+  levelId: level.id,
+  modifiers: { ...modifiers },
+  collectedCoinIds: level.entities.filter(e => collectedCoinIds.has(e.id)).map(e => e.id),
+  ticks: 0,
+  inputs: [],
+});
+
+// Append the input of the next tick, extending the last run when unchanged
+export const recordInput = (replay: Replay, input: SimInput) => {
+  const mask = encodeInput(input);
+  const last = replay.inputs.length - 2;
+  if (last >= 0 && replay.inputs[last] === mask) {
+    replay.inputs[last + 1]++;
+  } else {
+    replay.inputs.push(mask, 1);
+  }
+  replay.ticks++;
+};
+
+// Expand the run-length encoding into one SimInput per tick
+export const expandInputs = (replay: Replay): SimInput[] => {
+  const result: SimInput[] = [];
+  for (let i = 0; i < replay.inputs.length; i += 2) {
+    const input = decodeInput(replay.inputs[i]);
+    for (let n = 0; n < replay.inputs[i + 1]; n++) {
+      result.push(input);
+    }
+  }
+  return result;
+};
+
+// Input for a given tick (0-based), idle once the recording runs out
+export const inputAt = (inputs: SimInput[], tick: number): SimInput => inputs[tick] ?? EMPTY_INPUT;
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (typeof data.levelId !== 'number') throw new Error('Replay is missing a level id');
+  const modifiers = data.modifiers;
+  if (!isRecord(modifiers) || MODIFIER_KEYS.some(key => typeof modifiers[key] !== 'boolean')) {
+    throw new Error('Replay has invalid modifiers');
+  }
+  const collectedCoinIds = data.collectedCoinIds;
+  if (!Array.isArray(collectedCoinIds) || !collectedCoinIds.every((id): id is string => typeof id === 'string')) {
+    throw new Error('Replay has invalid collected coin ids');
+  }
+  const inputs = data.inputs;
+  if (!Array.isArray(inputs) || inputs.length % 2 !== 0 || !inputs.every(isCount)) {
+    throw new Error('Replay has corrupt input data');
+  }
+
+  const ticks = inputs.reduce((sum, n, i) => (i % 2 === 1 ? sum + n : sum), 0);
+  return {
+    version: REPLAY_VERSION,
+    levelId: data.levelId,
+    modifiers: MODIFIER_KEYS.reduce((acc, key) => ({ ...acc, [key]: modifiers[key] }), {} as GameModifiers),
+    collectedCoinIds,
+    ticks,
+    inputs,
+  };
+};
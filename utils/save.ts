@@ -0,0 +1,186 @@
+
+import { GameModifiers, GameState } from '../types';
+import { levels } from './levels';
+import { Bindings, DEFAULT_BINDINGS } from './controls';
+
+// Versioned save game kept in localStorage. When the format changes, bump
+// SAVE_VERSION and add a migration from the previous version to MIGRATIONS.
+
+export const SAVE_VERSION = 3;
+const STORAGE_KEY = 'cube-parkour:save';
+
+export interface LevelProgress {
+  completed: boolean;
+  bestScore: number;
+  deaths: number;
+  bestTicks: number | null; // Fastest completion, in simulation ticks
+  coinIds: string[]; // Every coin ever collected in this level
+}
+
+// Snapshot of an unfinished game, taken at the start of its current level
+export interface SavedRun {
+  currentLevelIndex: number;
+  lives: number;
+  coins: number;
+  score: number;
+  totalDeaths: number;
+  collectedCoinIds: string[];
+}
+
+export interface SaveData {
+  version: number;
+  levels: { [levelId: number]: LevelProgress };
+  modifiers: GameModifiers;
+  currentRun: SavedRun | null;
+  controls: Bindings;
+}
+
+export const DEFAULT_MODIFIERS: GameModifiers = {
+  energized: false,
+  lowGravity: false,
+  highGravity: false,
+  hardcore: false,
+  oldSchool: false,
+  tanky: false,
+};
+
+type SaveRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SaveRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Each entry upgrades a save from `version` to `version + 1`
+const MIGRATIONS: { [version: number]: (data: SaveRecord) => SaveRecord } = {
+  // v2: speedrun personal bests
+  1: (data) => ({
+    ...data,
+    levels: Object.fromEntries(
+      Object.entries(isRecord(data.levels) ? data.levels : {}).map(([id, progress]) => [
+        id,
+        { ...(isRecord(progress) ? progress : {}), bestTicks: null },
+      ])
+    ),
+  }),
+  // v3: rebindable controls
+  2: (data) => ({ ...data, controls: DEFAULT_BINDINGS }),
+};
+
+// Top-level shape of a current-version save; the fields inside are trusted
+const checkSaveShape = (data: SaveRecord): string[] => {
+  const errors: string[] = [];
+  if (!isRecord(data.levels)) errors.push('levels: must be an object');
+  if (data.modifiers !== undefined && !isRecord(data.modifiers)) errors.push('modifiers: must be an object');
+  if (data.controls !== undefined && !isRecord(data.controls)) errors.push('controls: must be an object');
+  if (data.currentRun != null && !isRecord(data.currentRun)) errors.push('currentRun: must be an object or null');
+  return errors;
+};
+
+export const createEmptySave = (): SaveData => ({
+  version: SAVE_VERSION,
+  levels: {},
+  modifiers: { ...DEFAULT_MODIFIERS },
+  currentRun: null,
+  controls: DEFAULT_BINDINGS,
+});
+
+export const migrateSave = (data: unknown): SaveData => {
+  if (!isRecord(data)) throw new Error('Save data is not an object');
+  let migrated = data;
+  while (typeof migrated.version === 'number' && migrated.version < SAVE_VERSION) {
+    const version = migrated.version;
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from save version ${version}`);
+    }
+    migrated = { ...migrate(migrated), version: version + 1 };
+  }
+  if (migrated.version !== SAVE_VERSION) {
+    throw new Error(`Unsupported save version ${migrated.version}`);
+  }
+  const errors = checkSaveShape(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Invalid save:\n${errors.join('\n')}`);
+  }
+
+  const empty = createEmptySave();
+  return {
+    ...empty,
+    levels: migrated.levels as SaveData['levels'],
+    currentRun: (migrated.currentRun ?? null) as SavedRun | null,
+    modifiers: { ...empty.modifiers, ...(migrated.modifiers as Partial<GameModifiers> | undefined) },
+    controls: { ...empty.controls, ...(migrated.controls as Partial<Bindings> | undefined) },
+  };
+};
+
+export const loadSave = (): SaveData => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? migrateSave(JSON.parse(raw)) : createEmptySave();
+  } catch (e) {
+    console.error('Failed to load save, starting fresh', e);
+    return createEmptySave();
+  }
+};
+
+export const writeSave = (save: SaveData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(save));
+  } catch (e) {
+    console.error('Failed to write save', e);
+  }
+};
+
+const getProgress = (save: SaveData, levelId: number): LevelProgress =>
+  save.levels[levelId] ?? { completed: false, bestScore: 0, deaths: 0, bestTicks: null, coinIds: [] };
+
+// The first level is always open, every other one once its predecessor is completed
+export const isLevelUnlocked = (save: SaveData, levelIndex: number): boolean => {
+  if (levelIndex === 0) return true;
+  const previous = levels[levelIndex - 1];
+  return !!previous && getProgress(save, previous.id).completed;
+};
+
+export const getBestTicks = (save: SaveData, levelId: number): number | null => getProgress(save, levelId).bestTicks;
+
+export const recordLevelComplete = (
+  save: SaveData,
+  levelId: number,
+  score: number,
+  coinIds: string[],
+  ticks: number
+): SaveData => {
+  const progress = getProgress(save, levelId);
+  return {
+    ...save,
+    levels: {
+      ...save.levels,
+      [levelId]: {
+        ...progress,
+        completed: true,
+        bestScore: Math.max(progress.bestScore, score),
+        bestTicks: progress.bestTicks === null ? ticks : Math.min(progress.bestTicks, ticks),
+        coinIds: Array.from(new Set([...progress.coinIds, ...coinIds])),
+      },
+    },
+  };
+};
+
+export const recordDeath = (save: SaveData, levelId: number): SaveData => {
+  const progress = getProgress(save, levelId);
+  return {
+    ...save,
+    levels: { ...save.levels, [levelId]: { ...progress, deaths: progress.deaths + 1 } },
+  };
+};
+
+export const createSavedRun = (
+  state: Pick<GameState, 'currentLevelIndex' | 'lives' | 'coins' | 'score' | 'totalDeaths'>,
+  collectedCoinIds: Set<string>
+): SavedRun => ({
+  currentLevelIndex: state.currentLevelIndex,
+  lives: state.lives,
+  coins: state.coins,
+  score: state.score,
+  totalDeaths: state.totalDeaths || 0,
+  collectedCoinIds: Array.from(collectedCoinIds),
+});
@@ -0,0 +1,846 @@
+
+import { Entity, LevelData, Vector, GameModifiers } from '../types';
+import {
+  GRAVITY, FRICTION, MOVE_SPEED, RUN_SPEED, CROUCH_SPEED,
+  JUMP_FORCE, BOUNCE_FORCE, PLAYER_SIZE, CROUCH_HEIGHT,
+  MAX_FALL_SPEED, MAX_SUBSTEP, MODIFIER_CONFIG, MAX_JUMPS,
+  WALL_SLIDE_SPEED, WALL_JUMP_FORCE, WALL_JUMP_PUSH, WALL_JUMP_LOCK_TICKS,
+  COYOTE_TICKS, JUMP_BUFFER_TICKS, JUMP_CUT_MULTIPLIER, DROP_THROUGH_TICKS,
+  SURFACE_CONFIG, DEFAULT_BUTTON_DURATION,
+  ENEMY_WALK_SPEED, ENEMY_CHASE_SPEED, ENEMY_JUMP_FORCE, ENEMY_JUMP_INTERVAL, ENEMY_DETECT_RADIUS,
+  ENEMY_DAMAGE, STOMP_TOLERANCE,
+  TURRET_FIRE_INTERVAL, PROJECTILE_SPEED, PROJECTILE_SIZE, PROJECTILE_DAMAGE, MAX_PROJECTILES
+} from '../constants';
+import { getMovementOffset } from './movement';
+import { SpatialGrid, createSpatialGrid, queryGrid, updateInGrid, unionRect } from './spatialGrid';
+import { applyChannels, isTrigger, isTriggerOn } from './triggers';
+import { isBlinking, isCrumbling, resetCrumbling, startCrumbling, updateTimedPlatforms } from './timedPlatforms';
+
+// Headless game simulation. Nothing in here touches the DOM, canvas or audio,
+// so a level can be stepped under Node for tests, replays and bots.
+// GameCanvas turns the returned events into particles, sounds and callbacks.
+
+export interface PlayerState {
+  pos: Vector;
+  vel: Vector;
+  size: Vector;
+  isGrounded: boolean;
+  isCrouching: boolean;
+  isDead: boolean;
+  jumpsRemaining: number;
+  hp: number;
+  invulnerableUntil: number; // Tick until which damage is ignored
+  facingRight: boolean; // For rendering eyes
+  wallDir: number; // -1 or 1 while airborne and touching a wall on that side, else 0
+  isWallSliding: boolean;
+  wallJumpLockUntil: number; // Tick until which horizontal input is ignored
+  lastGroundedTick: number; // For coyote time
+  jumpBufferedUntil: number; // Tick until which an unused jump press is kept
+  canCutJump: boolean; // Rising from a jump that hasn't been shortened yet
+  dropThroughUntil: number; // Tick until which one-way platforms are ignored
+}
+
+// Turret shot. Kept in a pool on the state rather than in `entities`, so
+// firing never changes entity indices or the spatial grid.
+export interface Projectile {
+  pos: Vector;
+  vel: Vector;
+  size: Vector;
+  damage: number;
+  owner: number; // Index of the turret that fired it, which it flies through
+  active: boolean; // False once it hit something; the slot is then reused
+}
+
+export interface SimState {
+  tick: number;
+  player: PlayerState;
+  entities: Entity[];
+  grid: SpatialGrid; // Broadphase over `entities`, kept current as they move
+  movers: number[]; // Indices of entities with a patrol, path or orbit
+  triggers: number[]; // Indices of plates, levers, keys and buttons
+  targets: number[]; // Indices of non-trigger entities linked to a channel
+  enemies: number[]; // Indices of enemies, stepped by their own AI
+  turrets: number[]; // Indices of turrets
+  timedPlatforms: number[]; // Indices of crumbling and blinking platforms
+  projectiles: Projectile[];
+  checkpoint: Vector;
+  levelComplete: boolean;
+  maxHp: number;
+}
+
+// Player intent for a single tick
+export interface SimInput {
+  left: boolean;
+  right: boolean;
+  run: boolean;
+  crouch: boolean;
+  jump: boolean; // True only on the tick the jump was pressed
+  jumpHeld: boolean; // True while the jump button is down, for variable jump height
+}
+
+export type SimEvent =
+  | { type: 'die'; pos: Vector }
+  | { type: 'crouch'; pos: Vector }
+  | { type: 'jump'; pos: Vector; isDoubleJump: boolean }
+  | { type: 'wallJump'; pos: Vector; dir: number } // dir: side of the wall that was jumped off
+  | { type: 'bounce'; pos: Vector }
+  | { type: 'land'; pos: Vector }
+  | { type: 'coin'; entity: Entity }
+  | { type: 'damage'; pos: Vector; hp: number }
+  | { type: 'finish'; pos: Vector }
+  | { type: 'checkpoint'; entity: Entity }
+  | { type: 'trigger'; entity: Entity; on: boolean }
+  | { type: 'stomp'; entity: Entity }
+  | { type: 'enemyJump'; pos: Vector }
+  | { type: 'shoot'; pos: Vector }
+  | { type: 'projectileHit'; pos: Vector }
+  | { type: 'crumble'; entity: Entity };
+
+export interface PhysicsConfig {
+  gravity: number;
+  jumpForce: number;
+  moveSpeed: number;
+  runSpeed: number;
+  crouchSpeed: number;
+  maxFallSpeed: number;
+  maxJumps: number;
+  wallSlideSpeed: number;
+  wallJumpForce: number;
+  wallJumpPush: number;
+}
+
+export const EMPTY_INPUT: SimInput = {
+  left: false,
+  right: false,
+  run: false,
+  crouch: false,
+  jump: false,
+  jumpHeld: false,
+};
+
+// AABB Collision Detection
+export const checkCollision = (rect1: { pos: Vector, size: Vector }, rect2: { pos: Vector, size: Vector }) => {
+  return (
+    rect1.pos.x < rect2.pos.x + rect2.size.x &&
+    rect1.pos.x + rect1.size.x > rect2.pos.x &&
+    rect1.pos.y < rect2.pos.y + rect2.size.y &&
+    rect1.pos.y + rect1.size.y > rect2.pos.y
+  );
+};
+
+const isSolid = (entity: Entity) =>
+  (entity.type === 'platform' || entity.type === 'bouncy' || entity.type === 'door' || entity.type === 'turret') &&
+  !entity.disabled && !entity.vanished;
+
+const isOneWay = (entity: Entity) => entity.type === 'oneway' && !entity.disabled && !entity.vanished;
+
+// Solids plus one-way platforms, which only stop the player from above
+const isStandable = (entity: Entity) => isSolid(entity) || isOneWay(entity);
+
+type Rect = { pos: Vector, size: Vector };
+
+// Entities that might overlap `rect`, in array order
+const nearby = (state: SimState, rect: Rect): Entity[] =>
+  queryGrid(state.grid, rect).map(index => state.entities[index]);
+
+// Rect grown by `margin` on every side, for contact probes one pixel out
+const expand = (rect: Rect, margin: number): Rect => ({
+  pos: { x: rect.pos.x - margin, y: rect.pos.y - margin },
+  size: { x: rect.size.x + margin * 2, y: rect.size.y + margin * 2 },
+});
+
+// Determine effective constants based on modifiers
+export const getPhysicsConfig = (modifiers: GameModifiers): PhysicsConfig => {
+  const speedScale = (modifiers.energized ? MODIFIER_CONFIG.energized.speedScale : 1.0) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.speedScale : 1.0);
+  const gravityScale = (modifiers.lowGravity ? MODIFIER_CONFIG.lowGravity.gravityScale : (modifiers.highGravity ? MODIFIER_CONFIG.highGravity.gravityScale : 1.0)) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.gravityScale : 1.0);
+  const jumpScale = (modifiers.oldSchool ? MODIFIER_CONFIG.oldSchool.jumpScale : 1.0) * (modifiers.tanky ? MODIFIER_CONFIG.tanky.jumpScale : 1.0);
+
+  return {
+    gravity: GRAVITY * gravityScale,
+    jumpForce: JUMP_FORCE * jumpScale,
+    moveSpeed: MOVE_SPEED * speedScale,
+    runSpeed: RUN_SPEED * speedScale,
+    crouchSpeed: CROUCH_SPEED * speedScale,
+    maxFallSpeed: MAX_FALL_SPEED,
+    maxJumps: modifiers.oldSchool ? MODIFIER_CONFIG.oldSchool.maxJumps : MAX_JUMPS,
+    wallSlideSpeed: WALL_SLIDE_SPEED,
+    wallJumpForce: WALL_JUMP_FORCE * jumpScale,
+    wallJumpPush: WALL_JUMP_PUSH * speedScale,
+  };
+};
+
+export const createSimState = (
+  level: LevelData,
+  modifiers: GameModifiers,
+  maxHp: number,
+  collectedCoinIds: Set<string> = new Set()
+): SimState => {
+  const config = getPhysicsConfig(modifiers);
+  const entities: Entity[] = JSON.parse(JSON.stringify(level.entities)).map((e: Entity) => ({
+    ...e,
+    active: (e.type === 'coin' && collectedCoinIds.has(e.id)) ? false : true,
+    collected: (e.type === 'coin' && collectedCoinIds.has(e.id)) ? true : false,
+    startPos: { ...e.pos }
+  }));
+  const movers = entities
+    .map((entity, index) => (entity.path || entity.orbit || entity.patrolRange ? index : -1))
+    .filter(index => index !== -1);
+  const triggers = entities.map((entity, index) => (isTrigger(entity) ? index : -1)).filter(index => index !== -1);
+  const targets = entities
+    .map((entity, index) => (entity.channel && !isTrigger(entity) ? index : -1))
+    .filter(index => index !== -1);
+  applyChannels(entities, triggers, targets, 0);
+  const enemies = entities.map((entity, index) => (entity.type === 'enemy' ? index : -1)).filter(index => index !== -1);
+  const turrets = entities.map((entity, index) => (entity.type === 'turret' ? index : -1)).filter(index => index !== -1);
+  const timedPlatforms = entities
+    .map((entity, index) => (isCrumbling(entity) || isBlinking(entity) ? index : -1))
+    .filter(index => index !== -1);
+  updateTimedPlatforms(entities, timedPlatforms, 0);
+
+  return {
+    tick: 0,
+    player: {
+      pos: { ...level.spawnPos },
+      vel: { x: 0, y: 0 },
+      size: { x: PLAYER_SIZE, y: PLAYER_SIZE },
+      isGrounded: false,
+      isCrouching: false,
+      isDead: false,
+      jumpsRemaining: config.maxJumps,
+      hp: maxHp,
+      invulnerableUntil: 0,
+      facingRight: true,
+      wallDir: 0,
+      isWallSliding: false,
+      wallJumpLockUntil: 0,
+      lastGroundedTick: 0,
+      jumpBufferedUntil: -1,
+      canCutJump: false,
+      dropThroughUntil: 0,
+    },
+    entities,
+    grid: createSpatialGrid(entities),
+    movers,
+    triggers,
+    targets,
+    enemies,
+    turrets,
+    timedPlatforms,
+    projectiles: [],
+    checkpoint: { ...level.spawnPos },
+    levelComplete: false,
+    maxHp,
+  };
+};
+
+// Sub-steps needed to cover `distance` without skipping over a solid
+const substepCount = (distance: number) => Math.max(1, Math.ceil(Math.abs(distance) / MAX_SUBSTEP));
+
+const playerCenter = (player: PlayerState): Vector => ({
+  x: player.pos.x + PLAYER_SIZE / 2,
+  y: player.pos.y + PLAYER_SIZE / 2,
+});
+
+const playerFeet = (player: PlayerState): Vector => ({
+  x: player.pos.x + PLAYER_SIZE / 2,
+  y: player.pos.y + player.size.y,
+});
+
+// The solid or one-way platform the player is standing on: touching its top
+// edge and overlapping it horizontally
+const findSupport = (player: PlayerState, entities: Entity[]): Entity | undefined =>
+  entities.find(entity =>
+    isStandable(entity) &&
+    Math.abs(player.pos.y + player.size.y - entity.pos.y) < 1 &&
+    player.pos.x < entity.pos.x + entity.size.x &&
+    player.pos.x + player.size.x > entity.pos.x
+  );
+
+// Side (-1 left, 1 right) of a solid the airborne player is touching, or 0
+const getWallDir = (player: PlayerState, entities: Entity[]): number => {
+  if (player.isGrounded) return 0;
+  const touches = (dx: number) => {
+    const probe = { pos: { x: player.pos.x + dx, y: player.pos.y }, size: player.size };
+    return entities.some(entity => isSolid(entity) && checkCollision(probe, entity));
+  };
+  if (touches(1)) return 1;
+  if (touches(-1)) return -1;
+  return 0;
+};
+
+// Horizontal speed a surface gives whatever stands on it: its own motion plus any conveyor belt
+const getSurfaceVelocityX = (surface: Entity): number =>
+  (surface.vel?.x ?? 0) +
+  (surface.material === 'conveyor' ? surface.conveyorSpeed ?? SURFACE_CONFIG.conveyor.speed : 0);
+
+// Share of the gap to the target speed closed per tick, in the air (no surface) or on one
+const getFriction = (surface: Entity | undefined): number => {
+  if (surface?.material === 'ice') return SURFACE_CONFIG.ice.friction;
+  if (surface?.material === 'mud') return SURFACE_CONFIG.mud.friction;
+  return FRICTION;
+};
+
+// Whether the player's feet passed a one-way platform's top edge during the
+// last move (from `prevBottom`), while falling and overlapping it horizontally.
+// Compared against where the top was last tick, so rising platforms still catch the player.
+const landsOnOneWay = (player: PlayerState, entity: Entity, prevBottom: number): boolean => {
+  const previousTop = entity.pos.y - Math.min(0, entity.vel?.y ?? 0);
+  return (
+    player.vel.y > 0 &&
+    prevBottom <= previousTop + 0.01 &&
+    player.pos.y + player.size.y >= entity.pos.y &&
+    player.pos.x < entity.pos.x + entity.size.x &&
+    player.pos.x + player.size.x > entity.pos.x
+  );
+};
+
+// Moves the player out of any moving solid that moved into them, along the
+// side it came from. Returns whether the player was pushed.
+const pushPlayer = (player: PlayerState, entities: Entity[]): boolean => {
+  let pushed = false;
+
+  for (const entity of entities) {
+    if (!isSolid(entity) || !entity.vel || !checkCollision(player, entity)) continue;
+
+    // Where the entity was last tick decides which side it hit the player from
+    const prevX = entity.pos.x - entity.vel.x;
+    const wasOverlappingX = player.pos.x < prevX + entity.size.x && player.pos.x + player.size.x > prevX;
+
+    if (wasOverlappingX) {
+      if (entity.vel.y < 0) {
+        player.pos.y = entity.pos.y - player.size.y;
+        player.vel.y = Math.min(player.vel.y, 0);
+      } else {
+        player.pos.y = entity.pos.y + entity.size.y;
+        player.vel.y = Math.max(player.vel.y, entity.vel.y);
+      }
+    } else if (entity.vel.x > 0) {
+      player.pos.x = entity.pos.x + entity.size.x;
+    } else {
+      player.pos.x = entity.pos.x - player.size.x;
+    }
+    pushed = true;
+  }
+
+  return pushed;
+};
+
+// Enemy AI and physics for one tick. Enemies collide with solids and land on
+// one-way platforms but ignore each other and moving platforms' momentum.
+const stepEnemy = (state: SimState, enemy: Entity, level: LevelData, events: SimEvent[]) => {
+  const player = state.player;
+  let facing = enemy.facing ?? -1;
+  let speed = ENEMY_WALK_SPEED;
+
+  if (enemy.behavior === 'chaser') {
+    const dx = playerCenter(player).x - (enemy.pos.x + enemy.size.x / 2);
+    const dy = playerCenter(player).y - (enemy.pos.y + enemy.size.y / 2);
+    enemy.isChasing = !player.isDead && Math.hypot(dx, dy) <= ENEMY_DETECT_RADIUS;
+    if (enemy.isChasing) {
+      if (Math.abs(dx) > 2) facing = Math.sign(dx);
+      speed = Math.abs(dx) > 2 ? ENEMY_CHASE_SPEED : 0;
+    }
+  }
+
+  // Walkers turn around at ledges; chasers stop at them rather than fall
+  if (enemy.onGround && speed > 0) {
+    const probe = {
+      pos: { x: facing > 0 ? enemy.pos.x + enemy.size.x : enemy.pos.x - 1, y: enemy.pos.y + enemy.size.y },
+      size: { x: 1, y: 2 },
+    };
+    const hasFloor = nearby(state, probe).some(entity => isStandable(entity) && checkCollision(probe, entity));
+    if (!hasFloor) {
+      if (enemy.isChasing) speed = 0;
+      else facing = -facing;
+    }
+  }
+
+  let velY = enemy.vel?.y ?? 0;
+  if (enemy.behavior === 'jumper' && enemy.onGround && state.tick >= (enemy.nextJumpTick ?? 0)) {
+    velY = ENEMY_JUMP_FORCE;
+    enemy.nextJumpTick = state.tick + ENEMY_JUMP_INTERVAL;
+    events.push({ type: 'enemyJump', pos: { x: enemy.pos.x + enemy.size.x / 2, y: enemy.pos.y + enemy.size.y } });
+  }
+  velY = Math.min(velY + GRAVITY, MAX_FALL_SPEED);
+  const velX = facing * speed;
+
+  // X: turn around at walls and the level edges
+  const startX = { pos: { ...enemy.pos }, size: enemy.size };
+  enemy.pos.x += velX;
+  for (const entity of nearby(state, unionRect(startX, enemy))) {
+    if (entity !== enemy && isSolid(entity) && checkCollision(enemy, entity)) {
+      enemy.pos.x = velX > 0 ? entity.pos.x - enemy.size.x : entity.pos.x + entity.size.x;
+      facing = -facing;
+    }
+  }
+  if (enemy.pos.x < 0 || enemy.pos.x > level.width - enemy.size.x) {
+    enemy.pos.x = Math.max(0, Math.min(enemy.pos.x, level.width - enemy.size.x));
+    facing = -facing;
+  }
+
+  // Y
+  const startY = { pos: { ...enemy.pos }, size: enemy.size };
+  const prevBottom = enemy.pos.y + enemy.size.y;
+  enemy.pos.y += velY;
+  enemy.onGround = false;
+  for (const entity of nearby(state, unionRect(startY, enemy))) {
+    if (entity === enemy) continue;
+    const falling = velY > 0;
+    const blocks = isOneWay(entity)
+      ? falling && prevBottom <= entity.pos.y + 0.01 && enemy.pos.y + enemy.size.y >= entity.pos.y &&
+        enemy.pos.x < entity.pos.x + entity.size.x && enemy.pos.x + enemy.size.x > entity.pos.x
+      : isSolid(entity) && checkCollision(enemy, entity);
+    if (!blocks) continue;
+    if (falling) {
+      enemy.pos.y = entity.pos.y - enemy.size.y;
+      enemy.onGround = true;
+    } else {
+      enemy.pos.y = entity.pos.y + entity.size.y;
+    }
+    velY = 0;
+  }
+
+  enemy.facing = facing;
+  enemy.vel = { x: velX, y: velY };
+  if (enemy.pos.y > level.height) {
+    enemy.active = false; // Fell out of the level
+  }
+};
+
+// Takes a projectile from the pool and launches it from the turret's centre.
+// Nothing is fired while the whole pool is in flight.
+const fireProjectile = (state: SimState, index: number, events: SimEvent[]) => {
+  const turret = state.entities[index];
+  let projectile = state.projectiles.find(p => !p.active);
+  if (!projectile) {
+    if (state.projectiles.length >= MAX_PROJECTILES) return;
+    projectile = { pos: { x: 0, y: 0 }, vel: { x: 0, y: 0 }, size: { x: PROJECTILE_SIZE, y: PROJECTILE_SIZE }, damage: 0, owner: index, active: false };
+    state.projectiles.push(projectile);
+  }
+
+  const angle = ((turret.fireAngle ?? 0) * Math.PI) / 180;
+  const speed = turret.projectileSpeed ?? PROJECTILE_SPEED;
+  const center = { x: turret.pos.x + turret.size.x / 2, y: turret.pos.y + turret.size.y / 2 };
+  projectile.pos = { x: center.x - PROJECTILE_SIZE / 2, y: center.y - PROJECTILE_SIZE / 2 };
+  projectile.vel = { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+  projectile.damage = turret.damage ?? PROJECTILE_DAMAGE;
+  projectile.owner = index;
+  projectile.active = true;
+  events.push({ type: 'shoot', pos: center });
+};
+
+// Moves a projectile in sub-steps so it can't skip a thin platform or the player
+const stepProjectile = (state: SimState, projectile: Projectile, level: LevelData, events: SimEvent[]) => {
+  const player = state.player;
+  const owner = state.entities[projectile.owner];
+  const steps = substepCount(Math.max(Math.abs(projectile.vel.x), Math.abs(projectile.vel.y)));
+
+  for (let i = 0; i < steps; i++) {
+    projectile.pos.x += projectile.vel.x / steps;
+    projectile.pos.y += projectile.vel.y / steps;
+    const center = { x: projectile.pos.x + projectile.size.x / 2, y: projectile.pos.y + projectile.size.y / 2 };
+
+    if (!player.isDead && checkCollision(projectile, player)) {
+      projectile.active = false;
+      hurtPlayer(state, projectile.damage, events);
+      return;
+    }
+    if (nearby(state, projectile).some(entity => entity !== owner && isSolid(entity) && checkCollision(projectile, entity))) {
+      projectile.active = false;
+      events.push({ type: 'projectileHit', pos: center });
+      return;
+    }
+    if (center.x < 0 || center.x > level.width || center.y < 0 || center.y > level.height) {
+      projectile.active = false;
+      return;
+    }
+  }
+};
+
+// Still recovering from the last hit; shared with the renderer's flashing
+export const isInvulnerable = (player: PlayerState, tick: number) => tick <= player.invulnerableUntil;
+
+// Spikes, lava, enemies and projectiles. Ignored while invulnerable from the last hit.
+const hurtPlayer = (state: SimState, damage: number, events: SimEvent[]) => {
+  const player = state.player;
+  if (isInvulnerable(player, state.tick)) return;
+
+  player.hp -= damage;
+  events.push({ type: 'damage', pos: playerCenter(player), hp: player.hp });
+
+  if (player.hp > 0) {
+    player.invulnerableUntil = state.tick + 60;
+    player.vel.y = -5;
+    player.canCutJump = false;
+    player.vel.x = -player.vel.x * 1.5;
+  } else {
+    player.isDead = true;
+  }
+};
+
+// Landing on an enemy from above, as opposed to running into it
+const isStomp = (player: PlayerState, enemy: Entity): boolean => {
+  const prevBottom = player.pos.y + player.size.y - player.vel.y;
+  const rise = Math.max(0, -(enemy.vel?.y ?? 0));
+  return player.vel.y > 0 && prevBottom <= enemy.pos.y + rise + STOMP_TOLERANCE;
+};
+
+/**
+ * Advances the simulation by one tick. `state` is updated in place and the
+ * events that happened during the tick are returned. The result depends only
+ * on the arguments, so the same inputs always produce the same run.
+ */
+export const simulateStep = (
+  state: SimState,
+  input: SimInput,
+  level: LevelData,
+  modifiers: GameModifiers
+): SimEvent[] => {
+  const config = getPhysicsConfig(modifiers);
+  const events: SimEvent[] = [];
+  const player = state.player;
+
+  state.tick += 1;
+
+  if (player.isDead) {
+    events.push({ type: 'die', pos: playerCenter(player) });
+
+    player.pos = { ...state.checkpoint };
+    player.vel = { x: 0, y: 0 };
+    player.isDead = false;
+    player.jumpsRemaining = config.maxJumps;
+    player.hp = state.maxHp;
+    player.invulnerableUntil = 0;
+    player.wallDir = 0;
+    player.isWallSliding = false;
+    player.wallJumpLockUntil = 0;
+    player.lastGroundedTick = state.tick;
+    player.jumpBufferedUntil = -1;
+    player.canCutJump = false;
+    player.dropThroughUntil = 0;
+    resetCrumbling(state.entities, state.timedPlatforms);
+  }
+
+  // --- Timed Platforms ---
+  // One that would come back inside the player waits until the player has moved out of it
+  updateTimedPlatforms(state.entities, state.timedPlatforms, state.tick, entity => !checkCollision(player, entity))
+    .forEach(entity => events.push({ type: 'crumble', entity }));
+
+  // Found before anything moves, so the player rides along with it this tick
+  const support = player.isGrounded ? findSupport(player, nearby(state, expand(player, 1))) : undefined;
+  if (support && isCrumbling(support)) {
+    startCrumbling(support, state.tick);
+  }
+
+  // --- Update Moving Entities ---
+  for (const index of state.movers) {
+    const entity = state.entities[index];
+    const offset = entity.startPos ? getMovementOffset(entity, state.tick) : null;
+    if (offset && entity.startPos) {
+      const x = entity.startPos.x + offset.x;
+      const y = entity.startPos.y + offset.y;
+
+      entity.vel = { x: x - entity.pos.x, y: y - entity.pos.y };
+      entity.pos.x = x;
+      entity.pos.y = y;
+      updateInGrid(state.grid, state.entities, index);
+    }
+  }
+
+  for (const index of state.enemies) {
+    const enemy = state.entities[index];
+    if (!enemy.active) continue;
+    stepEnemy(state, enemy, level, events);
+    updateInGrid(state.grid, state.entities, index);
+  }
+
+  // --- Moving Platforms ---
+  const isBlocked = () => nearby(state, player).some(entity => isSolid(entity) && checkCollision(player, entity));
+  if (support?.vel) {
+    player.pos.y = support.pos.y - player.size.y;
+  }
+  const carryX = support ? getSurfaceVelocityX(support) : 0;
+  if (carryX !== 0) {
+    player.pos.x += carryX;
+    if (isBlocked()) {
+      player.pos.x -= carryX; // Carried into a wall: slide along the platform instead
+    }
+  }
+  const pushed = pushPlayer(player, nearby(state, player));
+
+  // Squeezed between a moving solid and other geometry
+  if ((pushed || support?.vel) && !player.isDead && isBlocked()) {
+    player.hp = 0;
+    player.isDead = true;
+    events.push({ type: 'damage', pos: playerCenter(player), hp: 0 });
+  }
+
+  // --- Movement Logic ---
+  // Update Crouch State
+  if (input.crouch && !player.isCrouching) {
+    player.isCrouching = true;
+    player.pos.y += (PLAYER_SIZE - CROUCH_HEIGHT); // Push down to floor
+    player.size.y = CROUCH_HEIGHT;
+    events.push({ type: 'crouch', pos: playerFeet(player) });
+  } else if (!input.crouch && player.isCrouching) {
+    const testRect = {
+      pos: { x: player.pos.x, y: player.pos.y - (PLAYER_SIZE - CROUCH_HEIGHT) },
+      size: { x: PLAYER_SIZE, y: PLAYER_SIZE }
+    };
+
+    const canStand = !nearby(state, testRect).some(entity => isSolid(entity) && checkCollision(testRect, entity));
+    if (canStand) {
+      player.isCrouching = false;
+      player.pos.y -= (PLAYER_SIZE - CROUCH_HEIGHT);
+      player.size.y = PLAYER_SIZE;
+    }
+  }
+
+  // Holding crouch on a one-way platform drops through it
+  if (input.crouch && support?.type === 'oneway') {
+    player.dropThroughUntil = state.tick + DROP_THROUGH_TICKS;
+    player.isGrounded = false;
+  }
+  const isDropping = state.tick <= player.dropThroughUntil;
+  const surface = player.isGrounded ? support : undefined;
+
+  // Wall contact, from where the player ended up last tick
+  player.wallDir = getWallDir(player, nearby(state, expand(player, 1)));
+  const isLocked = state.tick < player.wallJumpLockUntil;
+
+  // X Movement
+  const baseSpeed = input.run ? config.runSpeed : (player.isCrouching ? config.crouchSpeed : config.moveSpeed);
+  const speed = surface?.material === 'mud' ? baseSpeed * SURFACE_CONFIG.mud.speedScale : baseSpeed;
+  let targetSpeed = 0;
+  if (input.right) {
+    targetSpeed = speed;
+    player.facingRight = true;
+  } else if (input.left) {
+    targetSpeed = -speed;
+    player.facingRight = false;
+  }
+
+  // Smooth acceleration/deceleration depending on the surface, skipped while a wall jump carries the player
+  if (!isLocked) {
+    player.vel.x += (targetSpeed - player.vel.x) * getFriction(surface);
+  }
+
+  // Y Movement (Gravity)
+  player.vel.y += config.gravity;
+  if (player.vel.y > config.maxFallSpeed) {
+    player.vel.y = config.maxFallSpeed;
+  }
+
+  // Wall slide: holding toward a wall slows the fall
+  const holdingTowardWall = (player.wallDir === 1 && input.right) || (player.wallDir === -1 && input.left);
+  player.isWallSliding = holdingTowardWall && !isLocked && player.vel.y > 0;
+  if (player.isWallSliding && player.vel.y > config.wallSlideSpeed) {
+    player.vel.y = config.wallSlideSpeed;
+  }
+
+  // Variable jump height: letting go of jump while rising cuts the jump short
+  if (player.canCutJump && !input.jumpHeld && player.vel.y < 0) {
+    player.vel.y *= JUMP_CUT_MULTIPLIER;
+    player.canCutJump = false;
+  }
+
+  // Coyote time: the ground jump survives a few ticks after walking off a ledge
+  if (
+    !player.isGrounded &&
+    state.tick - player.lastGroundedTick === COYOTE_TICKS + 1 &&
+    player.jumpsRemaining === config.maxJumps
+  ) {
+    player.jumpsRemaining--;
+  }
+
+  // Jump Logic. A press that can't be used yet is buffered for a few ticks.
+  if (input.jump) {
+    player.jumpBufferedUntil = state.tick + JUMP_BUFFER_TICKS;
+  }
+  const wantsJump = state.tick <= player.jumpBufferedUntil;
+
+  if (wantsJump && player.wallDir !== 0) {
+    // Wall jump: launch away from the wall. It counts as the first jump, so a
+    // double jump is still available afterwards unless oldSchool disables it.
+    const wallX = player.wallDir > 0 ? player.pos.x + player.size.x : player.pos.x;
+    player.vel.y = config.wallJumpForce;
+    player.vel.x = -player.wallDir * config.wallJumpPush;
+    player.facingRight = player.wallDir < 0;
+    player.wallJumpLockUntil = state.tick + WALL_JUMP_LOCK_TICKS;
+    player.jumpsRemaining = config.maxJumps - 1;
+    player.isWallSliding = false;
+    player.jumpBufferedUntil = -1;
+    player.canCutJump = true;
+    events.push({ type: 'wallJump', pos: { x: wallX, y: player.pos.y + player.size.y / 2 }, dir: player.wallDir });
+  } else if (wantsJump && player.jumpsRemaining > 0) {
+    player.vel.y = surface?.material === 'mud' ? config.jumpForce * SURFACE_CONFIG.mud.jumpScale : config.jumpForce;
+    if (support) {
+      // Keep the platform's or belt's momentum when jumping off it
+      player.vel.x += getSurfaceVelocityX(support);
+      player.vel.y += Math.min(0, support.vel?.y ?? 0);
+    }
+    player.isGrounded = false;
+    player.jumpBufferedUntil = -1;
+    player.canCutJump = true;
+    events.push({ type: 'jump', pos: playerFeet(player), isDoubleJump: player.jumpsRemaining !== config.maxJumps });
+    player.jumpsRemaining--;
+  }
+
+  // --- Collision Detection & Physics Application ---
+  // Each axis moves in sub-steps of at most MAX_SUBSTEP and stops at the first
+  // solid it touches, so fast bounces and dashes can't pass through thin platforms.
+
+  // X Axis
+  const startX = player.pos.x;
+  const moveX = player.vel.x;
+  const stepsX = substepCount(moveX);
+  const solidsX = nearby(state, unionRect(player, { pos: { x: startX + moveX, y: player.pos.y }, size: player.size })).filter(isSolid);
+
+  for (let i = 1; i <= stepsX; i++) {
+    player.pos.x = i === stepsX ? startX + moveX : startX + moveX * i / stepsX;
+
+    let hit = false;
+    if (player.pos.x < 0) { player.pos.x = 0; player.vel.x = 0; hit = true; }
+    if (player.pos.x > level.width - player.size.x) { player.pos.x = level.width - player.size.x; player.vel.x = 0; hit = true; }
+
+    for (const entity of solidsX) {
+      if (checkCollision(player, entity)) {
+        if (player.vel.x > 0) {
+          player.pos.x = entity.pos.x - player.size.x;
+        } else if (player.vel.x < 0) {
+          player.pos.x = entity.pos.x + entity.size.x;
+        }
+        player.vel.x = 0;
+        hit = true;
+      }
+    }
+    if (hit) break;
+  }
+
+  // Y Axis
+  const startY = player.pos.y;
+  const moveY = player.vel.y;
+  const stepsY = substepCount(moveY);
+  const floorsY = nearby(state, unionRect(player, { pos: { x: player.pos.x, y: startY + moveY }, size: player.size }))
+    .filter(entity => isSolid(entity) || (isOneWay(entity) && !isDropping));
+
+  let groundedThisFrame = false;
+  for (let i = 1; i <= stepsY; i++) {
+    const prevBottom = player.pos.y + player.size.y;
+    player.pos.y = i === stepsY ? startY + moveY : startY + moveY * i / stepsY;
+
+    let hit = false;
+    for (const entity of floorsY) {
+      const blocks = entity.type === 'oneway' ? landsOnOneWay(player, entity, prevBottom) : checkCollision(player, entity);
+      if (blocks) {
+        if (player.vel.y > 0) { // Falling
+          player.pos.y = entity.pos.y - player.size.y;
+          if (entity.type === 'bouncy') {
+            player.vel.y = BOUNCE_FORCE;
+            player.isGrounded = false;
+            player.jumpsRemaining = config.maxJumps; // Bouncing restores double jump
+            player.canCutJump = false;
+            events.push({ type: 'bounce', pos: playerFeet(player) });
+          } else {
+            if (!player.isGrounded) {
+              events.push({ type: 'land', pos: playerFeet(player) });
+            }
+            player.vel.y = 0;
+            groundedThisFrame = true;
+          }
+        } else if (player.vel.y < 0) { // Jumping into ceiling
+          player.pos.y = entity.pos.y + entity.size.y;
+          player.vel.y = 0;
+        }
+        hit = true;
+      }
+    }
+    if (hit) break;
+  }
+
+  if (player.pos.y > level.height) {
+    player.isDead = true;
+  }
+
+  player.isGrounded = groundedThisFrame;
+
+  if (player.isGrounded) {
+    player.jumpsRemaining = config.maxJumps;
+    player.lastGroundedTick = state.tick;
+  }
+
+  // --- Interaction ---
+  for (const entity of nearby(state, player)) {
+    if (!entity.active && entity.type !== 'checkpoint') continue;
+    if (entity.disabled) continue;
+    if (entity.type === 'text') continue;
+    if (!checkCollision(player, entity)) continue;
+
+    if (entity.type === 'coin' && !entity.collected) {
+      entity.collected = true;
+      entity.active = false;
+      events.push({ type: 'coin', entity });
+    } else if (entity.type === 'enemy' && isStomp(player, entity)) {
+      entity.active = false;
+      player.pos.y = entity.pos.y - player.size.y;
+      player.vel.y = BOUNCE_FORCE;
+      player.jumpsRemaining = config.maxJumps; // Like a bouncy pad, stomping restores double jump
+      player.canCutJump = false;
+      events.push({ type: 'stomp', entity });
+    } else if (entity.type === 'spike' || entity.type === 'lava' || entity.type === 'enemy') {
+      hurtPlayer(state, entity.damage ?? (entity.type === 'enemy' ? ENEMY_DAMAGE : 1000), events);
+    } else if (entity.type === 'finish') {
+      if (!state.levelComplete) {
+        state.levelComplete = true;
+        events.push({ type: 'finish', pos: { ...player.pos } });
+      }
+    } else if (entity.type === 'checkpoint') {
+      if (state.checkpoint.x !== entity.pos.x || state.checkpoint.y !== entity.pos.y) {
+        events.push({ type: 'checkpoint', entity });
+      }
+      state.checkpoint = { x: entity.pos.x, y: entity.pos.y };
+      entity.active = true;
+    }
+  }
+
+  // --- Turrets ---
+  for (const index of state.turrets) {
+    const turret = state.entities[index];
+    const interval = Math.max(1, turret.fireInterval ?? TURRET_FIRE_INTERVAL);
+    if (turret.active && !turret.disabled && (state.tick + (turret.fireOffset ?? 0)) % interval === 0) {
+      fireProjectile(state, index, events);
+    }
+  }
+  for (const projectile of state.projectiles) {
+    if (projectile.active) stepProjectile(state, projectile, level, events);
+  }
+
+  // --- Triggers ---
+  for (const index of state.triggers) {
+    const entity = state.entities[index];
+    const touching = !player.isDead && !!entity.active && checkCollision(player, entity);
+    const newTouch = touching && !entity.wasTouched;
+    entity.wasTouched = touching;
+
+    if (entity.type === 'plate' && touching !== !!entity.isOn) {
+      entity.isOn = touching;
+      events.push({ type: 'trigger', entity, on: touching });
+    } else if (entity.type === 'lever' && newTouch) {
+      entity.isOn = !entity.isOn;
+      events.push({ type: 'trigger', entity, on: entity.isOn });
+    } else if (entity.type === 'key' && touching) {
+      entity.isOn = true;
+      entity.active = false; // Picked up
+      events.push({ type: 'trigger', entity, on: true });
+    } else if (entity.type === 'button' && touching) {
+      if (!isTriggerOn(entity, state.tick)) events.push({ type: 'trigger', entity, on: true });
+      entity.onUntil = state.tick + (entity.duration ?? DEFAULT_BUTTON_DURATION);
+    }
+  }
+
+  // Targets follow their channels from the next tick on. One that would appear
+  // inside the player waits until the player has moved out of it.
+  applyChannels(state.entities, state.triggers, state.targets, state.tick, entity => !checkCollision(player, entity));
+
+  return events;
+};
@@ -0,0 +1,129 @@
+
+import { Entity, Vector } from '../types';
+import { TILE_SIZE } from '../constants';
+
+// Uniform grid broadphase over a level's entities, with TILE_SIZE cells.
+// Cells hold entity indices (positions in SimState.entities), and queries
+// return them sorted, so callers visit entities in the same order as a full
+// scan of the array and collision results don't depend on the grid.
+
+interface Rect {
+  pos: Vector;
+  size: Vector;
+}
+
+interface CellRange {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface SpatialGrid {
+  cellSize: number;
+  cells: Map<number, number[]>;
+  ranges: CellRange[]; // Cells each entity currently occupies, by entity index
+  stamps: number[]; // Last query that returned each entity, to skip duplicates
+  queryId: number;
+}
+
+// Packs cell coordinates into one number; supports cells from -32768 to 32767
+const cellKey = (cx: number, cy: number) => (cy + 32768) * 65536 + (cx + 32768);
+
+const getRange = (cellSize: number, rect: Rect): CellRange => ({
+  minX: Math.floor(rect.pos.x / cellSize),
+  minY: Math.floor(rect.pos.y / cellSize),
+  maxX: Math.floor((rect.pos.x + Math.max(0, rect.size.x)) / cellSize),
+  maxY: Math.floor((rect.pos.y + Math.max(0, rect.size.y)) / cellSize),
+});
+
+const addToCells = (grid: SpatialGrid, index: number, range: CellRange) => {
+  for (let cy = range.minY; cy <= range.maxY; cy++) {
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      const key = cellKey(cx, cy);
+      const cell = grid.cells.get(key);
+      if (cell) cell.push(index);
+      else grid.cells.set(key, [index]);
+    }
+  }
+};
+
+const removeFromCells = (grid: SpatialGrid, index: number, range: CellRange) => {
+  for (let cy = range.minY; cy <= range.maxY; cy++) {
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      const key = cellKey(cx, cy);
+      const cell = grid.cells.get(key);
+      if (!cell) continue;
+      const at = cell.indexOf(index);
+      if (at !== -1) cell.splice(at, 1);
+      if (cell.length === 0) grid.cells.delete(key);
+    }
+  }
+};
+
+export const createSpatialGrid = (entities: Entity[], cellSize: number = TILE_SIZE): SpatialGrid => {
+  const grid: SpatialGrid = { cellSize, cells: new Map(), ranges: [], stamps: [], queryId: 0 };
+  entities.forEach((entity, index) => {
+    const range = getRange(cellSize, entity);
+    grid.ranges[index] = range;
+    grid.stamps[index] = 0;
+    addToCells(grid, index, range);
+  });
+  return grid;
+};
+
+// Call after an entity moved. Only touches the grid when it crossed into other cells.
+export const updateInGrid = (grid: SpatialGrid, entities: Entity[], index: number) => {
+  const previous = grid.ranges[index];
+  const range = getRange(grid.cellSize, entities[index]);
+  if (
+    range.minX === previous.minX &&
+    range.minY === previous.minY &&
+    range.maxX === previous.maxX &&
+    range.maxY === previous.maxY
+  ) {
+    return;
+  }
+  removeFromCells(grid, index, previous);
+  addToCells(grid, index, range);
+  grid.ranges[index] = range;
+};
+
+/**
+ * Indices, in ascending order, of every entity in a cell that `rect`
+ * touches. This is a superset of the entities overlapping `rect`; callers
+ * still run the exact collision test.
+ */
+export const queryGrid = (grid: SpatialGrid, rect: Rect): number[] => {
+  const range = getRange(grid.cellSize, rect);
+  const stamp = ++grid.queryId;
+  const found: number[] = [];
+
+  for (let cy = range.minY; cy <= range.maxY; cy++) {
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      const cell = grid.cells.get(cellKey(cx, cy));
+      if (!cell) continue;
+      for (const index of cell) {
+        if (grid.stamps[index] !== stamp) {
+          grid.stamps[index] = stamp;
+          found.push(index);
+        }
+      }
+    }
+  }
+
+  return found.sort((a, b) => a - b);
+};
+
+// Smallest rectangle containing both, e.g. a mover's position before and after a step
+export const unionRect = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.pos.x, b.pos.x);
+  const y = Math.min(a.pos.y, b.pos.y);
+  return {
+    pos: { x, y },
+    size: {
+      x: Math.max(a.pos.x + a.size.x, b.pos.x + b.size.x) - x,
+      y: Math.max(a.pos.y + a.size.y, b.pos.y + b.size.y) - y,
+    },
+  };
+};
@@ -0,0 +1,29 @@
+
+import { TICK_RATE } from '../constants';
+
+// Speedrun timing is measured in simulation ticks, so it is unaffected by
+// frame rate, pauses and level transitions.
+
+export interface Split {
+  levelId: number;
+  ticks: number;
+  pbTicks: number | null; // Personal best before this split, if any
+}
+
+const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+
+// m:ss.cc
+export const formatTicks = (ticks: number): string => {
+  const totalCentis = Math.floor((ticks / TICK_RATE) * 100);
+  const minutes = Math.floor(totalCentis / 6000);
+  const seconds = Math.floor(totalCentis / 100) % 60;
+  return `${minutes}:${pad(seconds)}.${pad(totalCentis % 100)}`;
+};
+
+// +s.cc / -s.cc relative to a personal best
+export const formatDelta = (ticks: number, pbTicks: number): string => {
+  const delta = ticks - pbTicks;
+  return `${delta > 0 ? '+' : '-'}${(Math.abs(delta) / TICK_RATE).toFixed(2)}`;
+};
+
+export const totalTicks = (splits: Split[]): number => splits.reduce((sum, split) => sum + split.ticks, 0);
@@ -0,0 +1,558 @@
+
+import { EnemyBehavior, Entity, EntityType, LevelData, SurfaceMaterial, Vector } from '../types';
+import { TILE_SIZE, CUSTOM_LEVEL_ID, DEFAULT_PATROL_SPEED } from '../constants';
+import { ENEMY_BEHAVIORS, SURFACE_MATERIALS } from './levelFormat';
+
+// Importer for maps made in the Tiled editor (https://www.mapeditor.org), in
+// either the JSON (.tmj/.json) or XML (.tmx) format.
+//
+// - Tile layers become platforms, with adjacent tiles merged into rectangles.
+//   A layer property `entityType` (e.g. "lava" or "bouncy") overrides the type.
+// - Objects become entities based on their class (or type in older Tiled
+//   versions): spike, lava, coin, checkpoint, finish, bouncy, platform, oneway,
+//   text, door, plate, lever, key, button, enemy, turret. Classes walker,
+//   jumper and chaser are enemies with that behavior.
+//   An object of class "spawn" (or "player") sets the spawn point.
+// - Object properties: damage, moveSpeed, moveOffset, and patrolRange as
+//   patrolRangeX/patrolRangeY or "x,y", all distances in tiles.
+// - Platform surfaces, on objects or tile layers: material (ice, conveyor, mud)
+//   and conveyorSpeed in tiles per tick.
+// - Timed platforms, on objects or tile layers: crumbleDelay and respawnDelay,
+//   or blinkPeriod and blinkOffset, all in ticks.
+// - Links: channel, invert (bool) and, for buttons, duration in ticks.
+// - Enemies: behavior (walker, jumper, chaser) and facing (-1 or 1).
+// - Turrets: fireInterval and fireOffset in ticks, fireAngle in degrees and
+//   projectileSpeed in tiles per tick.
+//
+// Anything that can't be represented is skipped and reported in `warnings`.
+
+export interface TiledImportResult {
+  level: LevelData;
+  warnings: string[];
+}
+
+interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+interface TiledObject {
+  id?: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: Vector[];
+  polyline?: Vector[];
+  text?: { text: string; pixelsize?: number };
+  properties?: TiledProperty[];
+}
+
+interface TiledLayer {
+  type: string;
+  name?: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  encoding?: string;
+  compression?: string;
+  chunks?: unknown[];
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  properties?: TiledProperty[];
+  offsetx?: number;
+  offsety?: number;
+  visible?: boolean;
+}
+
+interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation?: string;
+  infinite?: boolean;
+  layers: TiledLayer[];
+  properties?: TiledProperty[];
+}
+
+const OBJECT_TYPES: EntityType[] = ['platform', 'spike', 'lava', 'coin', 'checkpoint', 'finish', 'bouncy', 'oneway', 'text', 'door', 'plate', 'lever', 'key', 'button', 'enemy', 'turret'];
+const TILE_LAYER_TYPES: EntityType[] = ['platform', 'lava', 'bouncy', 'spike', 'oneway'];
+const SPAWN_CLASSES = ['spawn', 'player'];
+const KNOWN_PROPERTIES = ['damage', 'patrolRange', 'patrolRangeX', 'patrolRangeY', 'moveSpeed', 'moveOffset', 'material', 'conveyorSpeed', 'channel', 'invert', 'duration', 'behavior', 'facing',
+  'fireInterval', 'fireAngle', 'fireOffset', 'projectileSpeed', 'crumbleDelay', 'respawnDelay', 'blinkPeriod', 'blinkOffset'];
+
+// Tiled stores flip/rotation flags in the top bits of a gid
+const GID_FLAG_MASK = 0xF0000000;
+
+// Default object size in tiles when the object has none (points, tile-less objects)
+const DEFAULT_OBJECT_SIZE: Partial<Record<EntityType, Vector>> = {
+  coin: { x: 0.5, y: 0.5 },
+  checkpoint: { x: 1, y: 2 },
+  finish: { x: 2, y: 3 },
+  door: { x: 0.5, y: 3 },
+  plate: { x: 1, y: 0.5 },
+  lever: { x: 0.5, y: 1 },
+  button: { x: 0.5, y: 0.5 },
+  key: { x: 0.5, y: 0.5 },
+};
+
+const getProperty = (properties: TiledProperty[] | undefined, name: string): unknown =>
+  properties?.find(p => p.name === name)?.value;
+
+const parseLink = (properties: TiledProperty[] | undefined): Partial<Entity> => {
+  const props: Partial<Entity> = {};
+  const channel = getProperty(properties, 'channel');
+  const duration = getProperty(properties, 'duration');
+  if ((typeof channel === 'string' && channel !== '') || typeof channel === 'number') props.channel = String(channel);
+  if (getProperty(properties, 'invert') === true) props.invert = true;
+  if (typeof duration === 'number') props.duration = duration;
+  return props;
+};
+
+// --- XML (.tmx) -> same shape as the JSON format ---
+
+const readXmlProperties = (element: Element): TiledProperty[] | undefined => {
+  const container = Array.from(element.children).find(child => child.tagName === 'properties');
+  if (!container) return undefined;
+  return Array.from(container.children).map(prop => {
+    const type = prop.getAttribute('type') || 'string';
+    const raw = prop.getAttribute('value') ?? prop.textContent ?? '';
+    const value = type === 'int' || type === 'float' ? Number(raw) : type === 'bool' ? raw === 'true' : raw;
+    return { name: prop.getAttribute('name') || '', type, value };
+  });
+};
+
+const numAttr = (element: Element, name: string, fallback: number = 0) => {
+  const value = element.getAttribute(name);
+  return value === null ? fallback : Number(value);
+};
+
+const readXmlPoints = (value: string | null): Vector[] =>
+  (value || '').trim().split(/\s+/).filter(Boolean).map(pair => {
+    const [x, y] = pair.split(',').map(Number);
+    return { x, y };
+  });
+
+const readXmlLayers = (parent: Element): TiledLayer[] => {
+  const layers: TiledLayer[] = [];
+  Array.from(parent.children).forEach(element => {
+    const common = {
+      name: element.getAttribute('name') || undefined,
+      properties: readXmlProperties(element),
+      offsetx: numAttr(element, 'offsetx'),
+      offsety: numAttr(element, 'offsety'),
+      visible: element.getAttribute('visible') !== '0',
+    };
+
+    if (element.tagName === 'layer') {
+      const dataEl = Array.from(element.children).find(child => child.tagName === 'data');
+      const encoding = dataEl?.getAttribute('encoding') || undefined;
+      const compression = dataEl?.getAttribute('compression') || undefined;
+      let data: number[] | string = [];
+      const chunks = dataEl ? Array.from(dataEl.children).filter(child => child.tagName === 'chunk') : [];
+      if (dataEl && encoding === 'csv') {
+        data = (dataEl.textContent || '').split(',').map(v => Number(v.trim()));
+      } else if (dataEl && encoding === 'base64') {
+        data = (dataEl.textContent || '').trim();
+      } else if (dataEl) {
+        data = Array.from(dataEl.children).filter(child => child.tagName === 'tile').map(tile => numAttr(tile, 'gid'));
+      }
+      layers.push({
+        ...common,
+        type: 'tilelayer',
+        width: numAttr(element, 'width'),
+        height: numAttr(element, 'height'),
+        data,
+        encoding,
+        compression,
+        chunks: chunks.length > 0 ? chunks : undefined,
+      });
+    } else if (element.tagName === 'objectgroup') {
+      const objects: TiledObject[] = Array.from(element.children)
+        .filter(child => child.tagName === 'object')
+        .map(obj => {
+          const childTags = Array.from(obj.children);
+          const find = (tag: string) => childTags.find(child => child.tagName === tag);
+          const textEl = find('text');
+          const polygon = find('polygon');
+          const polyline = find('polyline');
+          return {
+            id: numAttr(obj, 'id'),
+            name: obj.getAttribute('name') || undefined,
+            type: obj.getAttribute('type') || undefined,
+            class: obj.getAttribute('class') || undefined,
+            x: numAttr(obj, 'x'),
+            y: numAttr(obj, 'y'),
+            width: numAttr(obj, 'width'),
+            height: numAttr(obj, 'height'),
+            rotation: numAttr(obj, 'rotation'),
+            gid: obj.hasAttribute('gid') ? numAttr(obj, 'gid') : undefined,
+            point: !!find('point'),
+            ellipse: !!find('ellipse'),
+            polygon: polygon ? readXmlPoints(polygon.getAttribute('points')) : undefined,
+            polyline: polyline ? readXmlPoints(polyline.getAttribute('points')) : undefined,
+            text: textEl ? { text: textEl.textContent || '', pixelsize: numAttr(textEl, 'pixelsize', 16) } : undefined,
+            properties: readXmlProperties(obj),
+          };
+        });
+      layers.push({ ...common, type: 'objectgroup', objects });
+    } else if (element.tagName === 'group') {
+      layers.push({ ...common, type: 'group', layers: readXmlLayers(element) });
+    } else if (element.tagName === 'imagelayer') {
+      layers.push({ ...common, type: 'imagelayer' });
+    }
+  });
+  return layers;
+};
+
+const parseTmx = (text: string): TiledMap => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new Error(`Tiled map is not valid XML: ${parseError.textContent?.trim()}`);
+  }
+  const map = doc.documentElement;
+  if (map.tagName !== 'map') {
+    throw new Error('Tiled map XML has no <map> root element');
+  }
+  return {
+    width: numAttr(map, 'width'),
+    height: numAttr(map, 'height'),
+    tilewidth: numAttr(map, 'tilewidth'),
+    tileheight: numAttr(map, 'tileheight'),
+    orientation: map.getAttribute('orientation') || undefined,
+    infinite: map.getAttribute('infinite') === '1',
+    layers: readXmlLayers(map),
+    properties: readXmlProperties(map),
+  };
+};
+
+// --- Conversion ---
+
+const decodeBase64Gids = (data: string): number[] => {
+  const bytes = atob(data.trim());
+  const gids: number[] = [];
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    gids.push(
+      (bytes.charCodeAt(i) |
+        (bytes.charCodeAt(i + 1) << 8) |
+        (bytes.charCodeAt(i + 2) << 16) |
+        (bytes.charCodeAt(i + 3) << 24)) >>> 0
+    );
+  }
+  return gids;
+};
+
+// Greedy meshing: grow each unclaimed solid tile right, then down, into the largest rectangle
+const mergeTiles = (solid: boolean[], width: number, height: number) => {
+  const claimed = new Array<boolean>(solid.length).fill(false);
+  const rects: { x: number; y: number; w: number; h: number }[] = [];
+  const free = (x: number, y: number) => solid[y * width + x] && !claimed[y * width + x];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!free(x, y)) continue;
+
+      let w = 1;
+      while (x + w < width && free(x + w, y)) w++;
+
+      let h = 1;
+      while (y + h < height) {
+        let rowFree = true;
+        for (let i = 0; i < w; i++) {
+          if (!free(x + i, y + h)) {
+            rowFree = false;
+            break;
+          }
+        }
+        if (!rowFree) break;
+        h++;
+      }
+
+      for (let dy = 0; dy < h; dy++) {
+        for (let dx = 0; dx < w; dx++) {
+          claimed[(y + dy) * width + x + dx] = true;
+        }
+      }
+      rects.push({ x, y, w, h });
+    }
+  }
+  return rects;
+};
+
+const parsePatrolRange = (properties: TiledProperty[] | undefined): Vector | undefined => {
+  const combined = getProperty(properties, 'patrolRange');
+  if (typeof combined === 'string') {
+    const [x, y] = combined.split(',').map(v => Number(v.trim()));
+    if (isFinite(x) && isFinite(y)) return { x, y };
+  }
+  const x = Number(getProperty(properties, 'patrolRangeX') ?? 0);
+  const y = Number(getProperty(properties, 'patrolRangeY') ?? 0);
+  return x !== 0 || y !== 0 ? { x, y } : undefined;
+};
+
+export const importTiledMap = (text: string, name: string = 'Tiled Map'): TiledImportResult => {
+  const warnings = new Set<string>();
+  const trimmed = text.trimStart();
+
+  let map: TiledMap;
+  if (trimmed.startsWith('<')) {
+    map = parseTmx(trimmed);
+  } else {
+    try {
+      map = JSON.parse(text);
+    } catch (e) {
+      throw new Error(`Tiled map is not valid JSON: ${(e as Error).message}`);
+    }
+  }
+
+  if (!map || !(map.tilewidth > 0) || !(map.tileheight > 0) || !(map.width > 0) || !(map.height > 0) || !Array.isArray(map.layers)) {
+    throw new Error('Not a Tiled map: expected width, height, tilewidth, tileheight and layers');
+  }
+  if (map.orientation && map.orientation !== 'orthogonal') {
+    warnings.add(`${map.orientation} orientation is not supported; the map is imported as orthogonal`);
+  }
+  if (map.infinite) {
+    warnings.add('Infinite maps are not supported; chunked tile data is skipped');
+  }
+
+  // Map pixels -> game pixels
+  const scaleX = TILE_SIZE / map.tilewidth;
+  const scaleY = TILE_SIZE / map.tileheight;
+
+  const entities: Entity[] = [];
+  const counters: { [type: string]: number } = {};
+  let spawnPos: Vector | null = null;
+
+  const addEntity = (type: EntityType, pos: Vector, size: Vector, props: Partial<Entity> = {}) => {
+    counters[type] = (counters[type] ?? 0) + 1;
+    entities.push({ id: `${type}-${counters[type]}`, type, pos, size, active: true, ...props });
+  };
+
+  const parseSurface = (properties: TiledProperty[] | undefined, label: string): Partial<Entity> => {
+    const props: Partial<Entity> = {};
+    const material = getProperty(properties, 'material');
+    if (typeof material === 'string') {
+      if (SURFACE_MATERIALS.includes(material as SurfaceMaterial)) {
+        props.material = material as SurfaceMaterial;
+      } else {
+        warnings.add(`${label}: material "${material}" is not supported; ignored`);
+      }
+    }
+    const conveyorSpeed = getProperty(properties, 'conveyorSpeed');
+    if (typeof conveyorSpeed === 'number') props.conveyorSpeed = conveyorSpeed * TILE_SIZE;
+
+    const crumbleDelay = getProperty(properties, 'crumbleDelay');
+    const respawnDelay = getProperty(properties, 'respawnDelay');
+    const blinkPeriod = getProperty(properties, 'blinkPeriod');
+    const blinkOffset = getProperty(properties, 'blinkOffset');
+    if (typeof blinkPeriod === 'number') {
+      props.blinkPeriod = Math.max(2, Math.round(blinkPeriod));
+      if (typeof blinkOffset === 'number') props.blinkOffset = Math.round(blinkOffset);
+      if (typeof crumbleDelay === 'number') warnings.add(`${label}: crumbleDelay is ignored on a blinking platform`);
+    } else if (typeof crumbleDelay === 'number') {
+      props.crumbleDelay = Math.max(0, Math.round(crumbleDelay));
+      if (typeof respawnDelay === 'number') props.respawnDelay = Math.max(0, Math.round(respawnDelay));
+    }
+    return props;
+  };
+
+  const importTileLayer = (layer: TiledLayer) => {
+    const label = `Tile layer "${layer.name ?? ''}"`;
+    if (layer.chunks) {
+      warnings.add(`${label}: chunked (infinite) data is not supported`);
+      return;
+    }
+    if (layer.compression) {
+      warnings.add(`${label}: ${layer.compression} compressed tile data is not supported; save the map with CSV or uncompressed Base64`);
+      return;
+    }
+
+    const gids = typeof layer.data === 'string' ? decodeBase64Gids(layer.data) : layer.data ?? [];
+    const width = layer.width ?? map.width;
+    const height = layer.height ?? map.height;
+    if (gids.some(gid => (gid & GID_FLAG_MASK) !== 0)) {
+      warnings.add(`${label}: flipped or rotated tiles are imported without flipping`);
+    }
+    if (layer.offsetx || layer.offsety) {
+      warnings.add(`${label}: layer offsets are ignored`);
+    }
+
+    const typeProp = getProperty(layer.properties, 'entityType');
+    let type: EntityType = 'platform';
+    if (typeof typeProp === 'string') {
+      if (TILE_LAYER_TYPES.includes(typeProp as EntityType)) {
+        type = typeProp as EntityType;
+      } else {
+        warnings.add(`${label}: entityType "${typeProp}" is not supported for tile layers; using platform`);
+      }
+    }
+
+    const solid = Array.from({ length: width * height }, (_, i) => ((gids[i] ?? 0) & ~GID_FLAG_MASK) !== 0);
+    const damage = getProperty(layer.properties, 'damage');
+    const props: Partial<Entity> = { ...parseSurface(layer.properties, label), ...parseLink(layer.properties) };
+    if (typeof damage === 'number') props.damage = damage;
+    mergeTiles(solid, width, height).forEach(rect => {
+      addEntity(
+        type,
+        { x: rect.x * TILE_SIZE, y: rect.y * TILE_SIZE },
+        { x: rect.w * TILE_SIZE, y: rect.h * TILE_SIZE },
+        props
+      );
+    });
+  };
+
+  const importObject = (obj: TiledObject, layerName: string) => {
+    const label = `Object ${obj.id ?? ''}${obj.name ? ` "${obj.name}"` : ''} in "${layerName}"`;
+    const kind = (obj.class || obj.type || obj.name || '').toLowerCase();
+
+    if (obj.polygon || obj.polyline) {
+      warnings.add(`${label}: polygons and polylines are not supported; skipped`);
+      return;
+    }
+    if (obj.rotation) {
+      warnings.add(`${label}: rotation is ignored`);
+    }
+    if (obj.ellipse) {
+      warnings.add(`${label}: ellipse imported as its bounding rectangle`);
+    }
+
+    // Tile objects are anchored at their bottom-left corner
+    const x = obj.x * scaleX;
+    const y = (obj.gid !== undefined ? obj.y - (obj.height ?? 0) : obj.y) * scaleY;
+
+    if (SPAWN_CLASSES.includes(kind)) {
+      spawnPos = { x, y };
+      return;
+    }
+
+    if (obj.text) {
+      addEntity('text', { x: x + ((obj.width ?? 0) * scaleX) / 2, y }, { x: 0, y: 0 }, {
+        text: obj.text.text,
+        fontSize: Math.round((obj.text.pixelsize ?? 16) * scaleY),
+      });
+      return;
+    }
+
+    const enemyClass = ENEMY_BEHAVIORS.includes(kind as EnemyBehavior) ? (kind as EnemyBehavior) : undefined;
+    if (!OBJECT_TYPES.includes(kind as EntityType) && !enemyClass) {
+      warnings.add(`${label}: unknown class "${kind}"; skipped`);
+      return;
+    }
+    const type = enemyClass ? 'enemy' : (kind as EntityType);
+
+    if (type === 'text') {
+      warnings.add(`${label}: text objects need Tiled text content; skipped`);
+      return;
+    }
+
+    const fallback = DEFAULT_OBJECT_SIZE[type] ?? { x: 1, y: 1 };
+    const size = {
+      x: obj.width ? obj.width * scaleX : fallback.x * TILE_SIZE,
+      y: obj.height ? obj.height * scaleY : fallback.y * TILE_SIZE,
+    };
+
+    const props: Partial<Entity> = { ...parseSurface(obj.properties, label), ...parseLink(obj.properties) };
+    if (type === 'enemy') {
+      const behavior = getProperty(obj.properties, 'behavior') ?? enemyClass;
+      const facing = getProperty(obj.properties, 'facing');
+      if (ENEMY_BEHAVIORS.includes(behavior as EnemyBehavior)) {
+        props.behavior = behavior as EnemyBehavior;
+      } else if (behavior !== undefined) {
+        warnings.add(`${label}: behavior "${behavior}" is not supported; using walker`);
+      }
+      if (facing === 1 || facing === -1) props.facing = facing;
+    }
+    if (type === 'turret') {
+      const interval = getProperty(obj.properties, 'fireInterval');
+      const angle = getProperty(obj.properties, 'fireAngle');
+      const offset = getProperty(obj.properties, 'fireOffset');
+      const speed = getProperty(obj.properties, 'projectileSpeed');
+      if (typeof interval === 'number') props.fireInterval = Math.max(1, Math.round(interval));
+      if (typeof angle === 'number') props.fireAngle = angle;
+      if (typeof offset === 'number') props.fireOffset = Math.round(offset);
+      if (typeof speed === 'number') props.projectileSpeed = speed * TILE_SIZE;
+    }
+    const damage = getProperty(obj.properties, 'damage');
+    if (typeof damage === 'number') props.damage = damage;
+    const patrol = parsePatrolRange(obj.properties);
+    if (patrol) {
+      props.patrolRange = { x: patrol.x * TILE_SIZE, y: patrol.y * TILE_SIZE };
+      const speed = getProperty(obj.properties, 'moveSpeed');
+      const offset = getProperty(obj.properties, 'moveOffset');
+      props.moveSpeed = typeof speed === 'number' ? speed : DEFAULT_PATROL_SPEED;
+      props.moveOffset = typeof offset === 'number' ? offset : 0;
+    }
+    obj.properties?.forEach(p => {
+      if (!KNOWN_PROPERTIES.includes(p.name)) {
+        warnings.add(`${label}: property "${p.name}" is not supported`);
+      }
+    });
+
+    addEntity(type, { x, y }, size, props);
+  };
+
+  const importLayers = (layers: TiledLayer[]) => {
+    layers.forEach(layer => {
+      if (layer.visible === false) {
+        warnings.add(`Layer "${layer.name ?? ''}" is hidden; skipped`);
+        return;
+      }
+      if (layer.type === 'tilelayer') {
+        importTileLayer(layer);
+      } else if (layer.type === 'objectgroup') {
+        if (layer.offsetx || layer.offsety) {
+          warnings.add(`Object layer "${layer.name ?? ''}": layer offsets are ignored`);
+        }
+        (layer.objects ?? []).forEach(obj => importObject(obj, layer.name ?? ''));
+      } else if (layer.type === 'group') {
+        importLayers(layer.layers ?? []);
+      } else {
+        warnings.add(`${layer.type} "${layer.name ?? ''}" is not supported; skipped`);
+      }
+    });
+  };
+
+  importLayers(map.layers);
+
+  if (!spawnPos) {
+    warnings.add('Map has no "spawn" object; spawning at the top-left corner');
+  }
+  if (!entities.some(e => e.type === 'finish')) {
+    warnings.add('Map has no "finish" object');
+  }
+
+  const mapName = getProperty(map.properties, 'name');
+  return {
+    level: {
+      id: CUSTOM_LEVEL_ID,
+      name: typeof mapName === 'string' && mapName ? mapName : name,
+      spawnPos: spawnPos ?? { x: TILE_SIZE, y: TILE_SIZE },
+      width: map.width * TILE_SIZE,
+      height: map.height * TILE_SIZE,
+      entities,
+    },
+    warnings: Array.from(warnings),
+  };
+};
+
+// Cheap sniffing so one file picker can accept both level files and Tiled maps
+export const isTiledMap = (text: string): boolean => {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) return true;
+  try {
+    const data = JSON.parse(text);
+    return !!data && typeof data === 'object' && 'tilewidth' in data && Array.isArray(data.layers);
+  } catch {
+    return false;
+  }
+};
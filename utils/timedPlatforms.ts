@@ -0,0 +1,78 @@
+import { Entity } from '../types';
+import { DEFAULT_BLINK_PERIOD, DEFAULT_RESPAWN_DELAY } from '../constants';
+
+// Crumbling and blinking platforms. Either kind sets `vanished` while it is
+// gone, which the simulation treats as if the platform wasn't there.
+// Crumbling platforms start counting down once stood on (`startCrumbling`),
+// fall, and come back `respawnDelay` ticks later. Blinking platforms follow
+// the global tick: solid for the first half of every `blinkPeriod`.
+
+export const isCrumbling = (entity: Entity) => entity.crumbleDelay !== undefined;
+
+export const isBlinking = (entity: Entity) => entity.blinkPeriod !== undefined;
+
+const getBlinkPeriod = (entity: Entity) => Math.max(2, entity.blinkPeriod ?? DEFAULT_BLINK_PERIOD);
+
+// Position in the blink cycle, from 0 to the period
+const getBlinkPhase = (entity: Entity, tick: number) => {
+  const period = getBlinkPeriod(entity);
+  return (((tick + (entity.blinkOffset ?? 0)) % period) + period) % period;
+};
+
+export const isBlinkOn = (entity: Entity, tick: number): boolean =>
+  getBlinkPhase(entity, tick) < getBlinkPeriod(entity) / 2;
+
+// Ticks until a blinking platform switches off, 0 while it is off
+export const getBlinkTicksLeft = (entity: Entity, tick: number): number =>
+  Math.max(0, Math.ceil(getBlinkPeriod(entity) / 2 - getBlinkPhase(entity, tick)));
+
+// Called while the player stands on a crumbling platform; the first call starts the countdown
+export const startCrumbling = (entity: Entity, tick: number) => {
+  if (entity.fallAt === undefined && !entity.vanished) {
+    entity.fallAt = tick + (entity.crumbleDelay ?? 0);
+  }
+};
+
+/**
+ * Updates `vanished` on the timed platforms at `indices` and returns the ones
+ * that crumbled away this tick. `canAppear` can hold a platform back, e.g.
+ * one that would come back inside the player.
+ */
+export const updateTimedPlatforms = (
+  entities: Entity[],
+  indices: number[],
+  tick: number,
+  canAppear: (entity: Entity) => boolean = () => true
+): Entity[] => {
+  const fallen: Entity[] = [];
+  indices.forEach(index => {
+    const entity = entities[index];
+    if (isBlinking(entity)) {
+      if (!isBlinkOn(entity, tick)) {
+        entity.vanished = true;
+      } else if (entity.vanished && canAppear(entity)) {
+        entity.vanished = false;
+      }
+    } else if (entity.fallAt !== undefined && tick >= entity.fallAt) {
+      entity.fallAt = undefined;
+      entity.vanished = true;
+      entity.respawnAt = tick + (entity.respawnDelay ?? DEFAULT_RESPAWN_DELAY);
+      fallen.push(entity);
+    } else if (entity.respawnAt !== undefined && tick >= entity.respawnAt && canAppear(entity)) {
+      entity.respawnAt = undefined;
+      entity.vanished = false;
+    }
+  });
+  return fallen;
+};
+
+// Puts every crumbling platform back in place, for a fresh attempt after a respawn
+export const resetCrumbling = (entities: Entity[], indices: number[]) => {
+  indices.forEach(index => {
+    const entity = entities[index];
+    if (!isCrumbling(entity) || isBlinking(entity)) return;
+    entity.fallAt = undefined;
+    entity.respawnAt = undefined;
+    entity.vanished = false;
+  });
+};
@@ -0,0 +1,64 @@
+
+import { Entity, EntityType } from '../types';
+import { CHANNEL_COLORS } from '../constants';
+
+// Trigger/target links. Triggers (plates, levers, keys, buttons) power a
+// channel while they are on; every other entity with a channel is a target
+// that is present only while its channel is powered, except doors, which are
+// present (closed) only while it isn't. The simulation updates trigger state
+// from player contact and then calls `applyChannels`.
+
+export const TRIGGER_TYPES: EntityType[] = ['plate', 'lever', 'key', 'button'];
+
+export const isTrigger = (entity: Entity) => TRIGGER_TYPES.includes(entity.type);
+
+export const isTriggerOn = (entity: Entity, tick: number): boolean =>
+  entity.type === 'button' ? tick <= (entity.onUntil ?? -1) : !!entity.isOn;
+
+export const getPoweredChannels = (entities: Entity[], triggers: number[], tick: number): Set<string> => {
+  const powered = new Set<string>();
+  triggers.forEach(index => {
+    const entity = entities[index];
+    if (entity.channel && isTriggerOn(entity, tick)) powered.add(entity.channel);
+  });
+  return powered;
+};
+
+// Whether a target should currently be present
+export const isTargetEnabled = (entity: Entity, powered: Set<string>): boolean => {
+  const isPowered = !!entity.channel && powered.has(entity.channel);
+  const present = entity.type === 'door' ? !isPowered : isPowered;
+  return entity.invert ? !present : present;
+};
+
+/**
+ * Sets `disabled` on every target from the powered channels. `canEnable`
+ * can hold a target back, e.g. a door that would close on the player.
+ */
+export const applyChannels = (
+  entities: Entity[],
+  triggers: number[],
+  targets: number[],
+  tick: number,
+  canEnable: (entity: Entity) => boolean = () => true
+) => {
+  const powered = getPoweredChannels(entities, triggers, tick);
+  targets.forEach(index => {
+    const entity = entities[index];
+    const enabled = isTargetEnabled(entity, powered);
+    if (!enabled) {
+      entity.disabled = true;
+    } else if (entity.disabled && canEnable(entity)) {
+      entity.disabled = false;
+    }
+  });
+};
+
+// Stable color per channel name, shared by the game and the editor
+export const getChannelColor = (channel: string): string => {
+  let hash = 0;
+  for (let i = 0; i < channel.length; i++) {
+    hash = (hash * 31 + channel.charCodeAt(i)) | 0;
+  }
+  return CHANNEL_COLORS[Math.abs(hash) % CHANNEL_COLORS.length];
+};